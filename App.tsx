@@ -1,25 +1,94 @@
-import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import React, { useState, useEffect, useMemo, useCallback, useRef } from 'react';
 import { 
-  Play, 
   Activity, 
   Wifi, 
   WifiOff, 
-  Search, 
   BarChart3,
   Tv,
   ChevronDown,
   ChevronRight,
   RefreshCw,
   Signal,
-  Globe,
-  MonitorPlay,
   AlertCircle,
-  ShieldAlert
+  CalendarClock,
+  ListVideo,
+  Radar,
+  Combine,
+  Download,
+  Star,
+  LayoutGrid,
+  FileBarChart,
+  Network
 } from 'lucide-react';
-import { Channel, Source, StreamStats } from './types';
-import { PRESETS, BATCH_SIZE, TIMEOUT_MS } from './constants';
-import { parseAndAggregate } from './utils/parser';
+import { Channel, Source, StreamStats, HttpOptions, EpgProgramme, CheckOutcome, CheckRunEntry, ProbeResult, Isp } from './types';
+import { CHECK_CONCURRENCY, PER_HOST_CONCURRENCY, CHECK_FLUSH_MS } from './constants';
+import { parseAndAggregate, extractTvgUrls, carryOverResults } from './utils/parser';
+import { checkSource } from './utils/checker';
+import { applySourceUpdates, rerankChannels, setClientNetwork } from './utils/ranking';
+import { ISP_LABELS } from './utils/network';
+import { collapseRedirects, createCanonicalizer } from './utils/urls';
+import { runScheduled } from './utils/scheduler';
+import { PlaybackTestResult } from './utils/playback';
+import { isPlayable } from './utils/streamType';
+import { canCatchup, catchupDays } from './utils/catchup';
+import { resolutionLabel } from './utils/probe';
+import { summarizeGroups, summarizeOrigins, groupSections, GroupStat } from './utils/groups';
+import { loadSetting, saveSetting } from './utils/storage';
+import { getGuide } from './utils/epg';
+import { loadHistory, applyHistory, recordProbes } from './utils/history';
+import { useEpg } from './hooks/useEpg';
+import { useSubscriptions } from './hooks/useSubscriptions';
+import { useMonitor } from './hooks/useMonitor';
+import { useNaming } from './hooks/useNaming';
+import { useNetwork } from './hooks/useNetwork';
+import { useCheckRuns } from './hooks/useCheckRuns';
+import { useFavourites, STARRED_LIST } from './hooks/useFavourites';
+import { useFilter } from './hooks/useFilter';
+import { usePlaybackTest } from './hooks/usePlaybackTest';
+import { useMultiView } from './hooks/useMultiView';
+import { usePlayerSession, channelNumber } from './hooks/usePlayerSession';
+import { useStableCallbacks } from './hooks/useStableCallbacks';
+import { useWindowVirtualizer } from './hooks/useWindowVirtualizer';
 import VideoPlayer from './components/VideoPlayer';
+import EpgNowNext from './components/EpgNowNext';
+import EpgGuide from './components/EpgGuide';
+import EpgSettings from './components/EpgSettings';
+import SubscriptionManager from './components/SubscriptionManager';
+import MonitorPanel from './components/MonitorPanel';
+import AlertToasts from './components/AlertToasts';
+import NamingRules from './components/NamingRules';
+import ExportDialog from './components/ExportDialog';
+import CheckReport from './components/CheckReport';
+import FavouritesBar from './components/FavouritesBar';
+import GroupSidebar from './components/GroupSidebar';
+import FilterBar from './components/FilterBar';
+import MultiView from './components/MultiView';
+import ChannelRow, { ChannelRowActions } from './components/ChannelRow';
+
+const FAVOURITES_TAB = 'Favourites';
+
+// Row height estimates (px, including the gap) until rows are measured
+const GROUP_ROW_ESTIMATE = 44;
+const CHANNEL_ROW_ESTIMATE = 92;
+const EXPANDED_BASE_ESTIMATE = 90;
+const SOURCE_ROW_ESTIMATE = 60;
+
+type ListRow =
+  | { kind: 'group', key: string, group: string, count: number, collapsed: boolean, stats?: GroupStat }
+  | { kind: 'channel', key: string, channel: Channel };
+
+const categoryLabel = (category: string) =>
+  category === 'China' ? '国内频道' : category === 'International' ? '国际频道' : category === 'All' ? '全部'
+  : category === FAVOURITES_TAB ? '收藏' : category;
+
+interface ProbeTask {
+  channelId: string;
+  sourceId: string;
+  url: string;
+  httpOptions?: HttpOptions;
+  priority: number;
+  previous: Source; // Restored if the run is cancelled before this task starts
+}
 
 function App() {
   const [channels, setChannels] = useState<Channel[]>([]);
@@ -30,39 +99,91 @@ function App() {
   const [checkProgress, setCheckProgress] = useState(0);
   const [totalToCheck, setTotalToCheck] = useState(0);
   const [checkedCount, setCheckedCount] = useState(0);
+  const [deepCheck, setDeepCheck] = useState(false);
+  const inFlight = useRef<Set<string>>(new Set()); // Source ids currently being probed by any run
+  const checkAbort = useRef<AbortController | null>(null); // Cancels the running "检测全部"
+  const checkRuns = useCheckRuns();
 
   // UI State
-  const [activeSource, setActiveSource] = useState<{ url: string, name: string, resolution?: string, latency?: number | null } | null>(null);
-  const [filterText, setFilterText] = useState('');
-  const [activeTab, setActiveTab] = useState<'All' | 'China' | 'International'>('China');
+  const player = usePlayerSession();
+  const [activeTab, setActiveTab] = useState<string>('China'); // 'All', 'Favourites' or a subscription category
+  const [activeList, setActiveList] = useState<string>(STARRED_LIST); // Inside the Favourites tab
+  const [dragging, setDragging] = useState<string | null>(null); // Channel id being reordered
+  const [selectedGroups, setSelectedGroups] = useState<Set<string>>(new Set()); // Sidebar filter, empty = all
+  const [collapsedGroups, setCollapsedGroups] = useState<Set<string>>(new Set());
+  const [groupView, setGroupView] = useState<boolean>(() => loadSetting('groupView', true));
   const [expandedChannels, setExpandedChannels] = useState<Set<string>>(new Set());
+  const [showEpgSettings, setShowEpgSettings] = useState(false);
+  const [showSubscriptions, setShowSubscriptions] = useState(false);
+  const [showMonitor, setShowMonitor] = useState(false);
+  const [showMultiView, setShowMultiView] = useState(false);
+  const [showNaming, setShowNaming] = useState(false);
+  const [showExport, setShowExport] = useState(false);
+  const [showReport, setShowReport] = useState(false);
+
+  // Playlist subscriptions
+  const subs = useSubscriptions();
+  const failedSubscriptions = subs.subscriptions.filter(s => s.enabled && s.lastStatus === 'error');
+  const categories = useMemo(
+    () => Array.from(new Set(subs.subscriptions.filter(s => s.enabled).map(s => s.category))),
+    [subs.subscriptions]
+  );
 
-  // Initialize Data
+  // Fall back to 'All' when the selected category disappears
   useEffect(() => {
-    const loadPresets = async () => {
-      setLoadingData(true);
-      const promises = PRESETS.map(async (preset) => {
-        try {
-          const res = await fetch(preset.url);
-          if (!res.ok) return null;
-          const content = await res.text();
-          return { content, category: preset.category };
-        } catch (e) {
-          console.error(`Failed to load ${preset.name}`, e);
-          return null;
-        }
-      });
+    if (activeTab !== 'All' && activeTab !== FAVOURITES_TAB && !categories.includes(activeTab)) setActiveTab(categories[0] || 'All');
+  }, [categories, activeTab]);
+
+  // Channel naming rules and manual merge/split overrides
+  const naming = useNaming();
+  const canonicalUrl = useMemo(() => createCanonicalizer(naming.config.stripParams), [naming.config.stripParams]);
+
+  // EPG State
+  const [playlistTvgUrls, setPlaylistTvgUrls] = useState<string[]>([]);
+  const [guide, setGuide] = useState<EpgProgramme[]>([]);
+  const epg = useEpg(channels, playlistTvgUrls, !loadingData, naming.config);
+
+  // IPv6 connectivity and the user's carrier decide which sources rank first
+  const network = useNetwork();
+  useEffect(() => {
+    setClientNetwork(network.client);
+    setChannels(prev => rerankChannels(prev));
+  }, [network.client]);
 
-      const results = await Promise.all(promises);
-      const validResults = results.filter((r): r is { content: string, category: 'China' | 'International' } => r !== null);
-      
-      const aggregated = parseAndAggregate(validResults);
-      setChannels(aggregated);
+  // Initialize Data (re-parsed whenever a subscription's content or the naming rules change)
+  useEffect(() => {
+    if (subs.loading) return;
+    let cancelled = false;
+    const aggregated = parseAndAggregate(subs.playlists, naming.config);
+
+    // Source ids are stable, so the last stored result of each source can be restored
+    loadHistory().then(history => {
+      if (cancelled) return;
+      const restored = applyHistory(aggregated, history);
+      setChannels(prev => carryOverResults(prev, restored));
+      setPlaylistTvgUrls(extractTvgUrls(subs.playlists.map(p => p.content)));
       setLoadingData(false);
-    };
+    });
+    return () => { cancelled = true; };
+  }, [subs.loading, subs.playlists, naming.config]);
 
-    loadPresets();
-  }, []);
+  const activeChannel = player.session ? channels.find(c => c.id === player.session!.channelId) : undefined;
+  const replayDays = activeChannel ? catchupDays(activeChannel.sources) : 0;
+
+  // Full-day guide for whatever is playing, reaching back as far as its catch-up does
+  useEffect(() => {
+    if (!activeChannel || epg.version === 0) {
+      setGuide([]);
+      return;
+    }
+    const day = 24 * 60 * 60 * 1000;
+    const dayStart = new Date();
+    dayStart.setHours(0, 0, 0, 0);
+    const from = dayStart.getTime();
+    getGuide({ tvgId: activeChannel.tvgId, name: activeChannel.name }, from - replayDays * day, from + day)
+      .then(setGuide)
+      .catch(() => setGuide([]));
+  }, [activeChannel?.name, activeChannel?.tvgId, epg.version, replayDays]);
 
   // Compute Stats
   const stats: StreamStats = useMemo(() => {
@@ -93,143 +214,164 @@ function App() {
     };
   }, [channels]);
 
+  // Per-subscription health, only needed while the subscription manager is open
+  const originHealth = useMemo(
+    () => showSubscriptions ? summarizeOrigins(channels) : new Map(),
+    [channels, showSubscriptions]
+  );
+
   // Check Logic (Single Channel or All)
-  const runCheck = async (targetChannels: Channel[]) => {
-    if (isChecking || targetChannels.length === 0) return;
-    
-    setIsChecking(true);
-    setCheckedCount(0);
+  // Only exclusive runs ("检测全部") drive the global progress bar, block each other
+  // and can be cancelled; single-channel checks and the background monitor run alongside them.
+  const runCheck = async (
+    targetChannels: Channel[],
+    options: { exclusive?: boolean, markChecking?: boolean, concurrency?: number } = {}
+  ): Promise<CheckOutcome[]> => {
+    const { exclusive = false, markChecking = true, concurrency = CHECK_CONCURRENCY } = options;
+    if ((exclusive && isChecking) || targetChannels.length === 0) return [];
     
-    // Flatten all sources needed to check
-    const tasks: { channelId: string, sourceId: string, url: string }[] = [];
+    // Flatten all sources needed to check, skipping ones another run is already probing.
+    // What the user is looking at goes first.
+    const tasks: ProbeTask[] = [];
     targetChannels.forEach(ch => {
+      const priority = checkPriority(ch);
       ch.sources.forEach(src => {
-        tasks.push({ channelId: ch.id, sourceId: src.id, url: src.url });
+        if (inFlight.current.has(src.id)) return;
+        tasks.push({ channelId: ch.id, sourceId: src.id, url: src.url, httpOptions: src.httpOptions, priority, previous: src });
       });
     });
-
-    setTotalToCheck(tasks.length);
+    if (tasks.length === 0) return [];
+    tasks.forEach(task => inFlight.current.add(task.sourceId));
+
+    const controller = new AbortController();
+    if (exclusive) {
+      checkAbort.current = controller;
+      setIsChecking(true);
+      setCheckedCount(0);
+      setCheckProgress(0);
+      setTotalToCheck(tasks.length);
+    }
 
     // UPDATE 1: Set status to 'checking' IMMEDIATELY for all target sources
-    setChannels(prev => {
-      const next = [...prev];
-      tasks.forEach(task => {
-        const chIndex = next.findIndex(c => c.id === task.channelId);
-        if (chIndex !== -1) {
-          const ch = { ...next[chIndex] };
-          const srcIndex = ch.sources.findIndex(s => s.id === task.sourceId);
-          if (srcIndex !== -1) {
-            const newSources = [...ch.sources];
-            newSources[srcIndex] = { ...newSources[srcIndex], status: 'checking', latency: null };
-            ch.sources = newSources;
-            next[chIndex] = ch;
-          }
+    if (markChecking) setChannels(prev => applySourceUpdates(prev, tasks.map(task => ({
+      channelId: task.channelId,
+      sourceId: task.sourceId,
+      changes: { status: 'checking', latency: null, failedStage: undefined }
+    })), false));
+
+    // Results are buffered and applied in batches rather than one state update per probe
+    const startedAt = Date.now();
+    const byId = new Map(targetChannels.map(ch => [ch.id, ch]));
+    const runEntries: CheckRunEntry[] = []; // For the report, exclusive runs only
+    const outcomes: CheckOutcome[] = [];
+    let buffer: (ProbeTask & ProbeResult & { checkedAt: number })[] = [];
+    let done = 0;
+
+    const flush = async () => {
+      if (buffer.length === 0) return;
+      const results = buffer;
+      buffer = [];
+
+      // Persist results and get each source's updated long-term stats
+      const reliability = await recordProbes(results.map(res => ({
+        sourceId: res.sourceId,
+        record: { ts: res.checkedAt, status: res.status, latency: res.latency, resolution: res.resolution }
+      })));
+
+      // Sources are re-sorted Online > Unknown(Error) > Offline, weighted by reliability,
+      // then the ones that redirect to the same stream are folded together
+      const redirected = new Set(results.filter(res => res.finalUrl).map(res => res.channelId));
+      setChannels(prev => collapseRedirects(applySourceUpdates(prev, results.map(res => ({
+        channelId: res.channelId,
+        sourceId: res.sourceId,
+        changes: {
+          status: res.status,
+          latency: res.latency,
+          resolution: res.resolution,
+          finalUrl: res.finalUrl,
+          httpStatus: res.httpStatus,
+          failedStage: res.failedStage,
+          streamType: res.streamType,
+          ...(res.ipv6Only && res.previous.network && { network: { ...res.previous.network, ipv6: true } }),
+          reliability: reliability.get(res.sourceId),
+          checkedAt: res.checkedAt
         }
-      });
-      return next;
-    });
-
-    // Helper to check one source
-    const checkSource = async (task: typeof tasks[0]) => {
-      const start = performance.now();
-      try {
-        const controller = new AbortController();
-        const id = setTimeout(() => controller.abort(), TIMEOUT_MS);
-        
-        const response = await fetch(task.url, { 
-          method: 'GET', 
-          signal: controller.signal,
-          mode: 'cors' 
-        });
-        
-        clearTimeout(id);
-        const end = performance.now();
-        
-        let resolution: string | undefined = undefined;
-        if (response.ok) {
-           // Try resolution parse
-           try {
-             if (response.body) {
-                const reader = response.body.getReader();
-                const { value } = await reader.read();
-                reader.cancel();
-                if (value) {
-                  const text = new TextDecoder().decode(value);
-                  const matches = [...text.matchAll(/RESOLUTION=(\d+)x(\d+)/g)];
-                  if (matches.length > 0) {
-                    const maxHeight = Math.max(...matches.map(m => parseInt(m[2], 10)));
-                    resolution = maxHeight >= 1080 ? '1080P' : maxHeight >= 720 ? '720P' : `${maxHeight}P`;
-                  }
-                }
-             }
-           } catch (e) {}
-        }
-
-        return {
-          ...task,
-          status: response.ok ? 'online' : 'offline',
-          latency: response.ok ? Math.round(end - start) : null,
-          resolution
-        };
-      } catch (e) {
-        // Network Error or CORS error
-        return { ...task, status: 'error', latency: null, resolution: undefined };
-      }
+      }))), redirected, canonicalUrl));
     };
 
-    // Batch Execution
-    for (let i = 0; i < tasks.length; i += BATCH_SIZE) {
-      const batch = tasks.slice(i, i + BATCH_SIZE);
-      const results = await Promise.all(batch.map(checkSource));
-
-      // Update State
-      setChannels(prev => {
-        const next = [...prev];
-        results.forEach(res => {
-          const chIndex = next.findIndex(c => c.id === res.channelId);
-          if (chIndex !== -1) {
-            const ch = { ...next[chIndex] }; // copy channel
-            const srcIndex = ch.sources.findIndex(s => s.id === res.sourceId);
-            if (srcIndex !== -1) {
-              // Update source
-              const newSources = [...ch.sources];
-              newSources[srcIndex] = {
-                ...newSources[srcIndex],
-                status: res.status as any,
-                latency: res.latency,
-                resolution: res.resolution
-              };
-              
-              // Sort sources: Online > Unknown(Error) > Offline
-              newSources.sort((a, b) => {
-                const getScore = (s: Source) => {
-                  if (s.status === 'online') return 100000 - (s.latency || 0);
-                  if (s.status === 'error') return 50000; // Prioritize error over offline/idle, as it might just be CORS
-                  if (s.status === 'checking') return 100;
-                  return 0;
-                };
-                return getScore(b) - getScore(a);
-              });
-
-              ch.sources = newSources;
-              ch.bestSource = newSources[0]; // Best is top sorted
-              next[chIndex] = ch;
-            }
-          }
+    const timer = setInterval(() => {
+      flush();
+      if (exclusive) {
+        setCheckedCount(done);
+        setCheckProgress((done / tasks.length) * 100);
+      }
+    }, CHECK_FLUSH_MS);
+
+    // Check each source via the local probe service when available
+    const { pending } = await runScheduled(
+      tasks,
+      task => checkSource(task.url, { deep: deepCheck, httpOptions: task.httpOptions }),
+      (task, result) => {
+        inFlight.current.delete(task.sourceId);
+        outcomes.push({ channelId: task.channelId, sourceId: task.sourceId, status: result.status });
+        if (exclusive) {
+          const channel = byId.get(task.channelId)!;
+          runEntries.push({
+            sourceId: task.sourceId,
+            channelId: task.channelId,
+            channel: channel.name,
+            group: channel.group,
+            playlists: [...new Set(task.previous.origins.map(o => o.playlist))],
+            url: task.url,
+            status: result.status,
+            latency: result.latency
+          });
+        }
+        buffer.push({ ...task, ...result, checkedAt: Date.now() });
+        done++;
+      },
+      // A probe that threw still has to leave 'checking' and free its source for later runs
+      (_, e): ProbeResult => ({ status: 'error', latency: null, error: e instanceof Error ? e.message : String(e), via: 'direct' }),
+      { concurrency, perHost: PER_HOST_CONCURRENCY, signal: controller.signal }
+    );
+
+    clearInterval(timer);
+    await flush();
+
+    // Cancelled: sources that never ran go back to what they showed before
+    pending.forEach(task => inFlight.current.delete(task.sourceId));
+    if (markChecking && pending.length > 0) setChannels(prev => applySourceUpdates(prev, pending.map(task => ({
+      channelId: task.channelId,
+      sourceId: task.sourceId,
+      changes: { status: task.previous.status, latency: task.previous.latency, failedStage: task.previous.failedStage }
+    })), false));
+
+    if (exclusive) {
+      checkAbort.current = null;
+      setCheckedCount(done);
+      setCheckProgress(100);
+      setIsChecking(false);
+      if (runEntries.length > 0) {
+        checkRuns.record({
+          id: String(startedAt),
+          startedAt,
+          finishedAt: Date.now(),
+          cancelled: pending.length > 0,
+          entries: runEntries
         });
-        return next;
-      });
-
-      setCheckedCount(prev => prev + results.length);
-      setCheckProgress(((i + results.length) / tasks.length) * 100);
+        setShowReport(true);
+      }
     }
-
-    setIsChecking(false);
+    return outcomes;
   };
 
   const handleCheckAll = () => {
+    if (isChecking) {
+      checkAbort.current?.abort();
+      return;
+    }
     // Check all filtered channels (or visible ones)
-    runCheck(filteredChannels);
+    runCheck(filteredChannels, { exclusive: true });
   };
 
   const handleCheckChannel = (e: React.MouseEvent, channel: Channel) => {
@@ -244,42 +386,208 @@ function App() {
     setExpandedChannels(newSet);
   };
 
-  const handlePlaySource = (e: React.MouseEvent, source: Source, channelName: string) => {
+  const handlePlaySource = (e: React.MouseEvent, source: Source, channel: Channel) => {
     e.stopPropagation();
-    setActiveSource({
-      url: source.url,
-      name: channelName,
-      resolution: source.resolution,
-      latency: source.latency
-    });
+    player.play(channel.id, source.id);
   };
 
   const handlePlayBest = (e: React.MouseEvent, channel: Channel) => {
     e.stopPropagation();
-    // Prefer online source, but fallback to first source if only errors exist
-    const targetSource = (channel.bestSource && channel.bestSource.status === 'online') 
-      ? channel.bestSource 
-      : channel.sources[0];
+    // Prefer online source, but fallback to first playable source if only errors exist
+    const playable = channel.sources.filter(isPlayable);
+    const targetSource = playable.find(s => s.status === 'online') ?? playable[0];
 
     if (targetSource) {
-      setActiveSource({
-        url: targetSource.url,
-        name: channel.name,
-        resolution: targetSource.resolution,
-        latency: targetSource.latency
-      });
+      player.play(channel.id, targetSource.id);
     } else {
        if (!expandedChannels.has(channel.id)) toggleExpand(channel.id);
     }
   };
 
-  const filteredChannels = useMemo(() => {
+  // What the player saw is as good as a probe: store it so the list and ranking reflect it
+  const handlePlaybackResult = async (channelId: string, source: Source, status: 'online' | 'offline') => {
+    if (status === 'online' && source.status === 'online') return;
+    const checkedAt = Date.now();
+    const reliability = await recordProbes([{
+      sourceId: source.id,
+      record: { ts: checkedAt, status, latency: status === 'online' ? source.latency : null, resolution: source.resolution }
+    }]);
+
+    setChannels(prev => applySourceUpdates(prev, [{
+      channelId,
+      sourceId: source.id,
+      changes: {
+        status,
+        latency: status === 'online' ? source.latency : null,
+        failedStage: undefined,
+        reliability: reliability.get(source.id),
+        checkedAt
+      }
+    }]));
+  };
+
+  // Deep tests: a playable source gets its measured quality, an unplayable one counts as a failed playback
+  const handleDeepTestResult = async (channelId: string, source: Source, result: PlaybackTestResult) => {
+    if (!result.ok) return handlePlaybackResult(channelId, source, 'offline');
+    const { quality } = result;
+    const checkedAt = Date.now();
+    const resolution = quality.height > 0 ? resolutionLabel(quality.height) : source.resolution;
+    const reliability = await recordProbes([{
+      sourceId: source.id,
+      record: { ts: checkedAt, status: 'online', latency: source.latency, resolution, quality }
+    }]);
+
+    setChannels(prev => applySourceUpdates(prev, [{
+      channelId,
+      sourceId: source.id,
+      changes: {
+        status: 'online',
+        resolution,
+        quality,
+        failedStage: undefined,
+        reliability: reliability.get(source.id),
+        checkedAt
+      }
+    }]));
+  };
+  const deepTests = usePlaybackTest(handleDeepTestResult);
+  const multiView = useMultiView();
+
+  // The wall takes over playback (and audio) from the mini player
+  const openMultiView = () => {
+    player.close();
+    setShowMultiView(true);
+  };
+
+  // Starred channels and custom groups, in their manual order
+  const favs = useFavourites(channels);
+  const filter = useFilter();
+  const favouriteIds = useMemo(
+    () => new Set([...favs.starred, ...favs.groups.flatMap(g => g.channelIds)]),
+    [favs.starred, favs.groups]
+  );
+  const orderedList = (listId: string) => {
+    const byId = new Map(channels.map(c => [c.id, c]));
+    return favs.listIds(listId).map(id => byId.get(id)).filter((c): c is Channel => !!c);
+  };
+
+  // Tab and search first; the group sidebar counts what is left and narrows it further
+  const tabChannels = useMemo(() => {
+    const matchFilter = filter.matches;
+    if (activeTab === FAVOURITES_TAB) return orderedList(activeList).filter(matchFilter);
     return channels.filter(c => {
-      const matchFilter = c.name.toLowerCase().includes(filterText.toLowerCase());
       const matchTab = activeTab === 'All' ? true : c.category === activeTab;
-      return matchFilter && matchTab;
+      return matchTab && matchFilter(c);
     });
-  }, [channels, filterText, activeTab]);
+  }, [channels, filter.matches, activeTab, activeList, favs.starred, favs.groups]);
+
+  const groupStats = useMemo(() => summarizeGroups(tabChannels), [tabChannels]);
+
+  const filteredChannels = useMemo(
+    () => selectedGroups.size === 0 ? tabChannels : tabChannels.filter(c => selectedGroups.has(c.group)),
+    [tabChannels, selectedGroups]
+  );
+
+  const canReorder = activeTab === FAVOURITES_TAB; // Manual order only applies to favourites
+  const showSections = groupView && !canReorder;
+  const sections = useMemo(() => showSections ? groupSections(filteredChannels) : [], [showSections, filteredChannels]);
+
+  // Group selection belongs to the tab it was made in
+  useEffect(() => {
+    setSelectedGroups(new Set());
+  }, [activeTab]);
+
+  const toggleGroupFilter = (group: string) => {
+    const next = new Set(selectedGroups);
+    if (next.has(group)) next.delete(group);
+    else next.add(group);
+    setSelectedGroups(next);
+  };
+
+  const toggleCollapsed = (group: string) => {
+    const next = new Set(collapsedGroups);
+    if (next.has(group)) next.delete(group);
+    else next.add(group);
+    setCollapsedGroups(next);
+  };
+
+  // Flat row model for the virtualized list: group headers interleaved with channels
+  const listRows = useMemo((): ListRow[] => {
+    if (!showSections) return filteredChannels.map(channel => ({ kind: 'channel', key: channel.id, channel }));
+    return sections.flatMap(({ group, channels: list }): ListRow[] => {
+      const collapsed = collapsedGroups.has(group);
+      const header: ListRow = {
+        kind: 'group', key: `group:${group}`, group, count: list.length, collapsed,
+        stats: groupStats.find(g => g.name === group)
+      };
+      return collapsed ? [header] : [header, ...list.map((channel): ListRow => ({ kind: 'channel', key: channel.id, channel }))];
+    });
+  }, [showSections, sections, filteredChannels, collapsedGroups, groupStats]);
+
+  const rowKeys = useMemo(() => listRows.map(r => r.key), [listRows]);
+  const virtual = useWindowVirtualizer(rowKeys, index => {
+    const row = listRows[index];
+    if (row.kind === 'group') return GROUP_ROW_ESTIMATE;
+    return expandedChannels.has(row.channel.id)
+      ? CHANNEL_ROW_ESTIMATE + EXPANDED_BASE_ESTIMATE + row.channel.sources.length * SOURCE_ROW_ESTIMATE
+      : CHANNEL_ROW_ESTIMATE;
+  });
+
+  const toggleGroupView = () => {
+    setGroupView(!groupView);
+    saveSetting('groupView', !groupView);
+  };
+  const channelNames = useMemo(() => channels.map(c => c.name), [channels]);
+  const visibleIds = useMemo(() => new Set(filteredChannels.map(c => c.id)), [filteredChannels]);
+
+  // Probe order: the playing channel, then expanded ones, favourites, then whatever the current view shows
+  const checkPriority = (channel: Channel) =>
+    channel.id === player.session?.channelId ? 4
+    : expandedChannels.has(channel.id) ? 3
+    : favouriteIds.has(channel.id) ? 2
+    : visibleIds.has(channel.id) ? 1
+    : 0;
+
+  // Background monitoring: probes quietly (no 'checking' flash) and alerts on changes
+  const monitor = useMonitor({
+    getTargets: scope =>
+      scope === 'filtered' ? filteredChannels
+      : scope === 'favourites' ? channels.filter(c => favouriteIds.has(c.id))
+      : channels,
+    check: (targets, concurrency) => runCheck(targets, { markChecking: false, concurrency })
+  });
+
+  const handleSelectAlert = (channelId: string) => {
+    const channel = channels.find(c => c.id === channelId);
+    if (!channel) return;
+    setActiveTab('All');
+    filter.setQuery(`"${channel.name}"`);
+    if (!expandedChannels.has(channelId)) toggleExpand(channelId);
+  };
+
+  // Row handlers keep one identity so memoized rows skip re-rendering when only closures change
+  const rowActions = useStableCallbacks<ChannelRowActions>({
+    toggleExpand,
+    toggleStar: favs.toggleStar,
+    toggleInGroup: favs.toggleInGroup,
+    createGroup: favs.createGroup,
+    checkChannel: handleCheckChannel,
+    playBest: handlePlayBest,
+    playSource: handlePlaySource,
+    deepTest: (channel, sources) => deepTests.run(channel.id, sources),
+    addToWall: channel => {
+      multiView.add(channel.id);
+      openMultiView();
+    },
+    merge: naming.merge,
+    split: naming.split,
+    dragStart: id => setDragging(id),
+    dragEnd: () => setDragging(null),
+    drop: id => {
+      if (dragging && dragging !== id) favs.reorder(activeList, dragging, id);
+      setDragging(null);
+    }
+  });
 
   return (
     <div className="min-h-screen bg-slate-950 text-slate-100 font-sans selection:bg-cyan-900 selection:text-white">
@@ -317,6 +625,24 @@ function App() {
                 <BarChart3 size={16} />
                 <span className="font-mono">{stats.avgLatency}ms</span> 延迟
               </div>
+              <div
+                className="hidden lg:flex items-center gap-2 text-slate-400 pl-2 border-l border-slate-700"
+                title={network.client.ipv6 === null ? '正在检测 IPv6 连通性' : network.client.ipv6 ? '本机可访问 IPv6 信号源' : '本机无 IPv6，IPv6 信号源排在最后'}
+              >
+                <Network size={16} />
+                <span className={network.client.ipv6 ? 'text-green-400' : network.client.ipv6 === false ? 'text-slate-500 line-through' : ''}>IPv6</span>
+                <select
+                  value={network.client.isp ?? ''}
+                  onChange={(e) => network.setIsp((e.target.value || null) as Isp | null)}
+                  className="bg-transparent text-slate-300 focus:outline-none cursor-pointer"
+                  title="本机运营商，同运营商的信号源优先"
+                >
+                  <option value="">运营商不限</option>
+                  {(Object.keys(ISP_LABELS) as Isp[]).map(isp => (
+                    <option key={isp} value={isp}>{ISP_LABELS[isp]}</option>
+                  ))}
+                </select>
+              </div>
             </div>
           </div>
         </div>
@@ -328,45 +654,213 @@ function App() {
         {/* Controls */}
         <div className="flex flex-col md:flex-row justify-between gap-4">
           {/* Tabs */}
-          <div className="flex bg-slate-900 p-1 rounded-lg border border-slate-800 w-full md:w-auto">
-             {(['China', 'International', 'All'] as const).map(tab => (
+          <div className="flex bg-slate-900 p-1 rounded-lg border border-slate-800 w-full md:w-auto overflow-x-auto">
+             {[FAVOURITES_TAB, ...categories, 'All'].map(tab => (
                <button
                 key={tab}
                 onClick={() => setActiveTab(tab)}
-                className={`flex-1 md:flex-none px-6 py-2 rounded-md text-sm font-medium transition-all ${activeTab === tab ? 'bg-cyan-600 text-white shadow-lg' : 'text-slate-400 hover:text-slate-200'}`}
+                className={`flex-1 md:flex-none px-6 py-2 rounded-md text-sm font-medium transition-all whitespace-nowrap flex items-center justify-center gap-1 ${activeTab === tab ? 'bg-cyan-600 text-white shadow-lg' : 'text-slate-400 hover:text-slate-200'}`}
                >
-                 {tab === 'China' ? '国内频道' : tab === 'International' ? '国际频道' : '全部'}
+                 {tab === FAVOURITES_TAB && <Star size={14} />}
+                 {categoryLabel(tab)}
                </button>
              ))}
           </div>
 
           <div className="flex gap-3 w-full md:w-auto">
-             <div className="relative flex-1 md:w-64">
-                <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-500" size={16} />
-                <input 
-                  type="text" 
-                  placeholder="搜索频道..." 
-                  value={filterText}
-                  onChange={(e) => setFilterText(e.target.value)}
-                  className="w-full bg-slate-900 border border-slate-700 rounded-lg pl-10 pr-4 py-2.5 text-sm focus:outline-none focus:ring-1 focus:ring-cyan-500"
-                />
-             </div>
+             <FilterBar
+                query={filter.query}
+                errors={filter.errors}
+                presets={filter.presets}
+                onChange={filter.setQuery}
+                onSavePreset={filter.savePreset}
+                onDeletePreset={filter.deletePreset}
+             />
              
+             <button
+                onClick={() => setShowSubscriptions(v => !v)}
+                className={`relative px-3 py-2 rounded-lg text-sm border transition-colors
+                  ${showSubscriptions
+                    ? 'bg-cyan-950/60 border-cyan-500/60 text-cyan-300'
+                    : 'bg-slate-900 border-slate-700 text-slate-400 hover:text-slate-200'}`}
+                title="订阅管理"
+              >
+                <ListVideo size={16} />
+                {failedSubscriptions.length > 0 && (
+                  <span className="absolute -top-1 -right-1 w-2 h-2 rounded-full bg-red-500" />
+                )}
+              </button>
+
+             <button
+                onClick={() => setShowMonitor(v => !v)}
+                className={`relative px-3 py-2 rounded-lg text-sm border transition-colors
+                  ${showMonitor
+                    ? 'bg-cyan-950/60 border-cyan-500/60 text-cyan-300'
+                    : 'bg-slate-900 border-slate-700 text-slate-400 hover:text-slate-200'}`}
+                title="后台监控"
+              >
+                <Radar size={16} className={monitor.running ? 'animate-pulse' : ''} />
+                {monitor.settings.enabled && (
+                  <span className="absolute -top-1 -right-1 w-2 h-2 rounded-full bg-green-500" />
+                )}
+              </button>
+
+             <button
+                onClick={openMultiView}
+                className="px-3 py-2 rounded-lg text-sm border transition-colors bg-slate-900 border-slate-700 text-slate-400 hover:text-slate-200"
+                title="多画面"
+              >
+                <LayoutGrid size={16} />
+              </button>
+
+             <button
+                onClick={() => setShowNaming(v => !v)}
+                className={`px-3 py-2 rounded-lg text-sm border transition-colors
+                  ${showNaming
+                    ? 'bg-cyan-950/60 border-cyan-500/60 text-cyan-300'
+                    : 'bg-slate-900 border-slate-700 text-slate-400 hover:text-slate-200'}`}
+                title="频道名称规则"
+              >
+                <Combine size={16} />
+              </button>
+
+             <button
+                onClick={() => setShowEpgSettings(v => !v)}
+                className={`px-3 py-2 rounded-lg text-sm border transition-colors
+                  ${showEpgSettings
+                    ? 'bg-cyan-950/60 border-cyan-500/60 text-cyan-300'
+                    : 'bg-slate-900 border-slate-700 text-slate-400 hover:text-slate-200'}`}
+                title="节目单 (EPG)"
+              >
+                <CalendarClock size={16} className={epg.loading ? 'animate-pulse' : ''} />
+              </button>
+
+             <button
+                onClick={() => setShowExport(v => !v)}
+                disabled={loadingData}
+                className={`px-3 py-2 rounded-lg text-sm border transition-colors
+                  ${showExport
+                    ? 'bg-cyan-950/60 border-cyan-500/60 text-cyan-300'
+                    : 'bg-slate-900 border-slate-700 text-slate-400 hover:text-slate-200'}`}
+                title="导出当前列表"
+              >
+                <Download size={16} />
+              </button>
+
+             <button
+                onClick={() => setShowReport(v => !v)}
+                className={`px-3 py-2 rounded-lg text-sm border transition-colors
+                  ${showReport
+                    ? 'bg-cyan-950/60 border-cyan-500/60 text-cyan-300'
+                    : 'bg-slate-900 border-slate-700 text-slate-400 hover:text-slate-200'}`}
+                title="检测报告"
+              >
+                <FileBarChart size={16} />
+              </button>
+
+             <button
+                onClick={() => setDeepCheck(v => !v)}
+                disabled={isChecking}
+                className={`px-3 py-2 rounded-lg text-sm border transition-colors whitespace-nowrap
+                  ${deepCheck
+                    ? 'bg-indigo-950/60 border-indigo-500/60 text-indigo-300'
+                    : 'bg-slate-900 border-slate-700 text-slate-400 hover:text-slate-200'}`}
+                title="深度检测：解析主播放列表 → 子播放列表 → 下载首个分片，确认真正可播放"
+              >
+                深度检测
+              </button>
+
              <button 
                 onClick={handleCheckAll}
-                disabled={isChecking || loadingData}
+                disabled={loadingData}
+                title={isChecking ? `已检测 ${checkedCount}/${totalToCheck}，点击停止` : undefined}
                 className={`px-6 py-2 rounded-lg font-medium text-sm flex items-center justify-center gap-2 transition-all min-w-[140px]
                   ${isChecking 
-                    ? 'bg-slate-800 text-slate-400 cursor-not-allowed border border-slate-700' 
+                    ? 'bg-slate-800 text-slate-400 hover:text-red-300 hover:border-red-900/60 border border-slate-700' 
                     : 'bg-indigo-600 hover:bg-indigo-500 text-white shadow-lg shadow-indigo-900/50 border border-indigo-500/50'
                   }`}
               >
                 {isChecking ? <RefreshCw className="animate-spin" size={16} /> : <Activity size={16} />}
-                {isChecking ? `检测中 ${Math.round(checkProgress)}%` : '检测全部'}
+                {isChecking ? `停止 ${Math.round(checkProgress)}%` : '检测全部'}
               </button>
           </div>
         </div>
 
+        {showSubscriptions && (
+          <SubscriptionManager
+            subscriptions={subs.subscriptions}
+            refreshing={subs.refreshing}
+            health={originHealth}
+            onFilterOrigin={name => {
+              setActiveTab('All'); // A subscription's channels can sit under another category
+              filter.setQuery(`origin:"${name}"`);
+            }}
+            onAdd={subs.add}
+            onUpdate={subs.update}
+            onRemove={subs.remove}
+            onRefresh={subs.refresh}
+            onClose={() => setShowSubscriptions(false)}
+          />
+        )}
+
+        {!showSubscriptions && failedSubscriptions.length > 0 && (
+          <button
+            onClick={() => setShowSubscriptions(true)}
+            className="w-full text-left bg-red-950/30 border border-red-900/50 text-red-300 rounded-lg px-4 py-2 text-sm flex items-center gap-2"
+          >
+            <AlertCircle size={16} />
+            {failedSubscriptions.length} 个订阅加载失败: {failedSubscriptions.map(s => s.name).join('、')}
+          </button>
+        )}
+
+        {showMonitor && (
+          <MonitorPanel
+            settings={monitor.settings}
+            running={monitor.running}
+            lastRunAt={monitor.lastRunAt}
+            nextRunAt={monitor.nextRunAt}
+            onChange={monitor.updateSettings}
+            onRunNow={monitor.runNow}
+            onClose={() => setShowMonitor(false)}
+          />
+        )}
+
+        {showNaming && (
+          <NamingRules
+            config={naming.config}
+            onSetAlias={naming.setAlias}
+            onRemoveAlias={naming.removeAlias}
+            onRemoveSplit={naming.removeSplit}
+            onSetRules={naming.setRules}
+            onSetStripWords={naming.setStripWords}
+            onSetStripParams={naming.setStripParams}
+            onClose={() => setShowNaming(false)}
+          />
+        )}
+
+        {showExport && (
+          <ExportDialog channels={filteredChannels} onClose={() => setShowExport(false)} />
+        )}
+
+        {showReport && (
+          <CheckReport runs={checkRuns.runs} onClose={() => setShowReport(false)} />
+        )}
+
+        {showEpgSettings && (
+          <EpgSettings
+            url={epg.url}
+            playlistUrls={playlistTvgUrls}
+            files={epg.files}
+            loading={epg.loading}
+            status={epg.status}
+            onUrlChange={epg.updateUrl}
+            onUpload={epg.upload}
+            onRemoveFile={epg.removeFile}
+            onReload={() => epg.reload(true)}
+            onClose={() => setShowEpgSettings(false)}
+          />
+        )}
+
         {/* Global Progress Bar */}
         {isChecking && (
           <div className="w-full bg-slate-900 rounded-full h-2 overflow-hidden border border-slate-800">
@@ -377,188 +871,141 @@ function App() {
           </div>
         )}
 
-        {/* Channel List */}
-        <div className="space-y-3">
-          {loadingData ? (
-             <div className="text-center py-20 text-slate-500 flex flex-col items-center">
-                <RefreshCw className="animate-spin mb-4 text-cyan-500" size={32} />
-                <p>正在加载直播源数据...</p>
-             </div>
-          ) : filteredChannels.length === 0 ? (
-             <div className="text-center py-20 text-slate-500">
-                未找到匹配的频道
-             </div>
-          ) : (
-            filteredChannels.map(channel => {
-              const hasBest = !!channel.bestSource;
-              // Online is true only if status is explicitly online
-              const isOnline = hasBest && channel.bestSource?.status === 'online';
-              const isExpanded = expandedChannels.has(channel.id);
-              
-              // Determine if this channel has any sources being checked right now
-              const isChannelChecking = channel.sources.some(s => s.status === 'checking');
-              // Determine if we have "Error" sources which might just be CORS issues
-              const hasErrors = channel.sources.some(s => s.status === 'error');
-
-              return (
-                <div key={channel.id} className="bg-slate-900/40 border border-slate-800 rounded-xl overflow-hidden hover:border-slate-700 transition-colors">
-                  {/* Channel Header Row */}
-                  <div 
-                    onClick={() => toggleExpand(channel.id)}
-                    className="flex items-center p-4 cursor-pointer hover:bg-slate-800/50 transition-colors"
-                  >
-                    <div className="mr-3 text-slate-500">
-                      {isExpanded ? <ChevronDown size={20} /> : <ChevronRight size={20} />}
-                    </div>
-                    
-                    {/* Icon / Avatar */}
-                    <div className={`w-10 h-10 rounded-lg flex items-center justify-center mr-4 
-                      ${isOnline ? 'bg-green-500/10 text-green-400' : hasErrors ? 'bg-orange-500/10 text-orange-400' : 'bg-slate-800 text-slate-500'}`}>
-                      {channel.category === 'China' ? <Tv size={20} /> : <Globe size={20} />}
-                    </div>
-
-                    {/* Name & Badge */}
-                    <div className="flex-1 min-w-0">
-                      <div className="flex items-center gap-2">
-                         <h3 className="font-medium text-slate-200 truncate">{channel.name}</h3>
-                         <span className="text-[10px] px-1.5 py-0.5 rounded bg-slate-800 text-slate-400 border border-slate-700">
-                            {channel.sources.length} 源
-                         </span>
-                         {channel.group && (
-                           <span className="text-[10px] px-1.5 py-0.5 rounded bg-slate-800 text-slate-500 border border-slate-700 hidden sm:inline-block">
-                             {channel.group}
-                           </span>
-                         )}
-                      </div>
-                      <div className="flex items-center gap-2 mt-1 text-xs">
-                        {isChannelChecking ? (
-                           <span className="text-cyan-400 flex items-center gap-1">
-                             <RefreshCw size={10} className="animate-spin" /> 检测中...
-                           </span>
-                        ) : isOnline ? (
-                          <>
-                            <span className="text-green-400 flex items-center gap-1">
-                              <span className="w-1.5 h-1.5 rounded-full bg-green-500"></span> 在线
-                            </span>
-                            {channel.bestSource?.resolution && (
-                               <span className="text-indigo-400 bg-indigo-500/10 px-1 rounded">{channel.bestSource.resolution}</span>
-                            )}
-                            <span className={`${(channel.bestSource?.latency || 9999) < 500 ? 'text-green-400' : 'text-yellow-400'}`}>
-                              {channel.bestSource?.latency}ms
-                            </span>
-                          </>
-                        ) : hasErrors ? (
-                          <span className="text-orange-400 flex items-center gap-1" title="浏览器无法直接检测，但可能可以播放">
-                             <ShieldAlert size={12} /> 未知 (CORS)
-                          </span>
-                        ) : hasBest && channel.bestSource?.status === 'offline' ? (
-                          <span className="text-red-400 flex items-center gap-1">
-                            <span className="w-1.5 h-1.5 rounded-full bg-red-500"></span> 离线
-                          </span>
-                        ) : (
-                          <span className="text-slate-600">未检测</span>
-                        )}
-                      </div>
-                    </div>
-
-                    {/* Actions */}
-                    <div className="flex items-center gap-2">
-                       <button 
-                         onClick={(e) => handleCheckChannel(e, channel)}
-                         className="p-2 text-slate-400 hover:text-cyan-400 hover:bg-cyan-950/50 rounded-lg transition-colors"
-                         title="检测此频道所有源"
-                       >
-                         <RefreshCw size={18} className={isChannelChecking ? "animate-spin text-cyan-400" : ""} />
-                       </button>
-                       <button 
-                         onClick={(e) => handlePlayBest(e, channel)}
-                         className={`p-2 rounded-lg transition-colors flex items-center gap-2
-                           ${isOnline 
-                             ? 'bg-cyan-600 text-white shadow-lg hover:bg-cyan-500' 
-                             : 'bg-slate-800 text-slate-500 hover:bg-slate-700 hover:text-slate-300'}`}
-                       >
-                         <Play size={18} fill={isOnline ? "currentColor" : "none"} />
-                         <span className="hidden sm:inline text-xs font-medium">播放</span>
-                       </button>
-                    </div>
-                  </div>
+        {activeTab === FAVOURITES_TAB && (
+          <FavouritesBar
+            starredCount={favs.starred.length}
+            groups={favs.groups}
+            activeList={activeList}
+            onSelect={setActiveList}
+            onCreate={(name) => setActiveList(favs.createGroup(name))}
+            onRename={favs.renameGroup}
+            onDelete={(groupId) => {
+              favs.deleteGroup(groupId);
+              setActiveList(STARRED_LIST);
+            }}
+          />
+        )}
 
-                  {/* Sources List (Expanded) */}
-                  {isExpanded && (
-                    <div className="border-t border-slate-800 bg-slate-950/30">
-                      <div className="overflow-x-auto">
-                        <table className="w-full text-left text-xs sm:text-sm">
-                          <thead className="text-slate-500 font-medium border-b border-slate-800/50">
-                             <tr>
-                               <th className="px-4 py-2 w-12 text-center">#</th>
-                               <th className="px-4 py-2">源地址 (URL)</th>
-                               <th className="px-4 py-2 w-24 text-center">格式</th>
-                               <th className="px-4 py-2 w-28 text-center">状态</th>
-                               <th className="px-4 py-2 w-20 text-right">操作</th>
-                             </tr>
-                          </thead>
-                          <tbody className="divide-y divide-slate-800/50">
-                             {channel.sources.map((source, idx) => (
-                               <tr key={source.id} className="hover:bg-slate-800/30 transition-colors">
-                                 <td className="px-4 py-3 text-center text-slate-600">{idx + 1}</td>
-                                 <td className="px-4 py-3 font-mono text-slate-400 truncate max-w-[150px] sm:max-w-xs" title={source.url}>
-                                   {source.url}
-                                 </td>
-                                 <td className="px-4 py-3 text-center">
-                                    {source.resolution ? (
-                                      <span className="bg-indigo-900/30 text-indigo-400 px-1.5 py-0.5 rounded border border-indigo-900/50">
-                                        {source.resolution}
-                                      </span>
-                                    ) : '-'}
-                                 </td>
-                                 <td className="px-4 py-3 text-center">
-                                   {source.status === 'checking' ? (
-                                      <RefreshCw size={12} className="animate-spin inline text-cyan-500" />
-                                   ) : source.status === 'online' ? (
-                                     <span className={`${(source.latency || 9999) < 200 ? 'text-green-400' : 'text-yellow-400'}`}>
-                                       {source.latency}ms
-                                     </span>
-                                   ) : source.status === 'offline' ? (
-                                     <span className="text-red-500">失效</span>
-                                   ) : source.status === 'error' ? (
-                                      <span className="text-orange-400 flex items-center justify-center gap-1 cursor-help" title="浏览器跨域限制，无法检测延迟，但点击播放可能可用">
-                                        <AlertCircle size={12} /> N/A (CORS)
-                                      </span>
-                                   ) : (
-                                     <span className="text-slate-600">-</span>
-                                   )}
-                                 </td>
-                                 <td className="px-4 py-3 text-right">
-                                    <button 
-                                      onClick={(e) => handlePlaySource(e, source, channel.name)}
-                                      className="text-slate-400 hover:text-white p-1 hover:bg-slate-700 rounded transition-colors"
-                                      title="尝试播放"
-                                    >
-                                      <MonitorPlay size={16} />
-                                    </button>
-                                 </td>
-                               </tr>
-                             ))}
-                          </tbody>
-                        </table>
-                      </div>
-                    </div>
-                  )}
-                </div>
-              );
-            })
+        <div className="flex flex-col md:flex-row gap-6">
+          {!loadingData && groupStats.length > 0 && (
+            <GroupSidebar
+              groups={groupStats}
+              selected={selectedGroups}
+              groupView={groupView}
+              onToggle={toggleGroupFilter}
+              onClear={() => setSelectedGroups(new Set())}
+              onToggleGroupView={toggleGroupView}
+            />
           )}
+
+          {/* Channel List */}
+          <div className="space-y-3 flex-1 min-w-0">
+            {loadingData ? (
+               <div className="text-center py-20 text-slate-500 flex flex-col items-center">
+                  <RefreshCw className="animate-spin mb-4 text-cyan-500" size={32} />
+                  <p>正在加载直播源数据...</p>
+               </div>
+            ) : filteredChannels.length === 0 ? (
+               <div className="text-center py-20 text-slate-500">
+                  {activeTab === FAVOURITES_TAB && !filter.query ? '这里还没有频道，点击频道右侧的星标或分组按钮添加' : '未找到匹配的频道'}
+               </div>
+            ) : (
+              <div
+                ref={virtual.containerRef}
+                style={{ paddingTop: virtual.paddingTop, paddingBottom: virtual.paddingBottom }}
+              >
+                {listRows.slice(virtual.start, virtual.end).map(row => (
+                  <div key={row.key} data-key={row.key} ref={virtual.measureRef} className="pb-3">
+                    {row.kind === 'group' ? (
+                      <button
+                        onClick={() => toggleCollapsed(row.group)}
+                        className="w-full flex items-center gap-2 text-sm text-slate-400 hover:text-slate-200 pt-2"
+                      >
+                        {row.collapsed ? <ChevronRight size={16} /> : <ChevronDown size={16} />}
+                        <span className="font-medium">{row.group}</span>
+                        <span className="text-xs font-mono text-slate-500">{row.count}</span>
+                        {row.stats && row.stats.checked > 0 && (
+                          <span className="text-xs text-green-500/80">{Math.round(row.stats.online / row.stats.count * 100)}% 在线</span>
+                        )}
+                        <span className="flex-1 border-t border-slate-800 ml-2" />
+                      </button>
+                    ) : (
+                      <ChannelRow
+                        channel={row.channel}
+                        expanded={expandedChannels.has(row.channel.id)}
+                        starred={favs.isStarred(row.channel.id)}
+                        groups={favs.groups}
+                        nowNext={epg.nowNext[row.channel.id]}
+                        now={epg.now}
+                        draggable={canReorder}
+                        canDrop={canReorder && dragging !== null}
+                        isDragging={dragging === row.channel.id}
+                        channelNames={expandedChannels.has(row.channel.id) ? channelNames : undefined}
+                        testing={expandedChannels.has(row.channel.id) ? deepTests.testing : undefined}
+                        actions={rowActions}
+                      />
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
         </div>
       </div>
 
+      <AlertToasts
+        alerts={monitor.alerts}
+        onDismiss={monitor.dismissAlert}
+        onClear={monitor.clearAlerts}
+        onSelect={handleSelectAlert}
+      />
+
+      {showMultiView && (
+        <MultiView
+          state={multiView}
+          channels={channels}
+          pickerChannels={filteredChannels}
+          onSetLayout={multiView.setLayout}
+          onAssign={multiView.assign}
+          onAdd={multiView.add}
+          onSwap={multiView.swap}
+          onToggleAudio={multiView.toggleAudio}
+          onSourceFailed={(channelId, source) => handlePlaybackResult(channelId, source, 'offline')}
+          onSourcePlaying={(channelId, source) => handlePlaybackResult(channelId, source, 'online')}
+          onClose={() => setShowMultiView(false)}
+        />
+      )}
+
       {/* Floating Player */}
-      {activeSource && (
-        <VideoPlayer 
-          url={activeSource.url}
-          name={activeSource.name}
-          resolution={activeSource.resolution}
-          latency={activeSource.latency}
-          onClose={() => setActiveSource(null)} 
+      {player.session && activeChannel && (
+        <VideoPlayer
+          channelId={activeChannel.id}
+          name={activeChannel.name}
+          number={channelNumber(activeChannel, filteredChannels)}
+          group={activeChannel.group}
+          sources={activeChannel.sources}
+          startSourceId={player.session.sourceId}
+          mode={player.session.mode}
+          timeshift={player.session.timeshift}
+          canTimeshift={replayDays > 0}
+          guide={epg.version > 0 ? (
+            <EpgGuide
+              programmes={guide}
+              now={epg.now}
+              canReplay={replayDays > 0 ? p => activeChannel.sources.some(s => canCatchup(s, p.start)) : undefined}
+              onReplay={p => player.shift({ start: p.start, end: p.stop, title: p.title })}
+              replaying={player.session.timeshift?.start}
+            />
+          ) : undefined}
+          nowNext={<EpgNowNext entry={epg.nowNext[activeChannel.id]} now={epg.now} />}
+          onModeChange={player.setMode}
+          onZap={step => player.zap(step, filteredChannels)}
+          onJump={number => player.jump(number, filteredChannels)}
+          onLast={player.session.previousId ? player.last : undefined}
+          onTimeshift={player.shift}
+          onSourceFailed={(source) => handlePlaybackResult(activeChannel.id, source, 'offline')}
+          onSourcePlaying={(source) => handlePlaybackResult(activeChannel.id, source, 'online')}
+          onClose={player.close}
         />
       )}
     </div>
@@ -0,0 +1,140 @@
+/**
+ * Headless source checker.
+ *
+ *   npm run check -- [options] [files...]
+ *
+ * Loads the PRESETS (or the given local .m3u/.txt files), probes every source
+ * and writes a playlist containing only the online sources, best first.
+ */
+import { readFile, writeFile } from 'fs/promises';
+import { basename, extname } from 'path';
+import { parseArgs } from 'util';
+import { Channel, Source } from '../types';
+import { PRESETS, TIMEOUT_MS, CHECK_CONCURRENCY, PER_HOST_CONCURRENCY } from '../constants';
+import { parseAndAggregate } from '../utils/parser';
+import { probeUrl, requestHeaders } from '../utils/probe';
+import { rankSources } from '../utils/ranking';
+import { runScheduled } from '../utils/scheduler';
+import { EXPORT_FORMATS, ExportFormat, exportChannels } from '../utils/exporter';
+
+const USAGE = `Usage: npm run check -- [options] [files...]
+
+Options:
+  -o, --out <file>         Output playlist (default: playlist.m3u)
+  -f, --format <fmt>       m3u, txt, json or diyp (default: from --out extension)
+  -p, --preset <name>      Only use presets whose name contains <name> (repeatable)
+  -c, --category <name>    Category for local files (default: China)
+      --concurrency <n>    Parallel probes (default: ${CHECK_CONCURRENCY}, at most ${PER_HOST_CONCURRENCY} per host)
+      --timeout <ms>       Per-source timeout (default: ${TIMEOUT_MS})
+      --deep               Require HLS sources to deliver a media segment
+  -h, --help               Show this help
+
+Without files, all PRESETS are loaded.`;
+
+const log = (msg: string) => process.stderr.write(msg + '\n');
+
+const loadPlaylists = async (files: string[], presetFilters: string[], category: string) => {
+  if (files.length > 0) {
+    return Promise.all(files.map(async file => ({
+      content: await readFile(file, 'utf8'),
+      category,
+      name: basename(file)
+    })));
+  }
+
+  const presets = presetFilters.length > 0
+    ? PRESETS.filter(p => presetFilters.some(f => p.name.toLowerCase().includes(f.toLowerCase())))
+    : PRESETS;
+  if (presets.length === 0) throw new Error(`No preset matches: ${presetFilters.join(', ')}`);
+
+  const results = await Promise.all(presets.map(async preset => {
+    try {
+      const res = await fetch(preset.url, { headers: requestHeaders() });
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      log(`Loaded ${preset.name}`);
+      return { content: await res.text(), category: preset.category, name: preset.name };
+    } catch (e) {
+      log(`Failed to load ${preset.name}: ${e instanceof Error ? e.message : e}`);
+      return null;
+    }
+  }));
+  return results.filter((r): r is NonNullable<typeof r> => r !== null);
+};
+
+/**
+ * Probes every source with at most `concurrency` requests in flight
+ */
+const checkAll = async (channels: Channel[], concurrency: number, timeoutMs: number, deep: boolean) => {
+  const tasks: Source[] = channels.flatMap(ch => ch.sources);
+  let done = 0;
+
+  await runScheduled(
+    tasks,
+    source => probeUrl(source.url, { timeoutMs, deep, headers: requestHeaders(source.httpOptions) }),
+    (source, result) => {
+      source.status = result.status;
+      source.latency = result.latency;
+      source.resolution = result.resolution;
+      source.finalUrl = result.finalUrl;
+      source.httpStatus = result.httpStatus;
+      source.failedStage = result.failedStage;
+
+      done++;
+      if (done % 100 === 0 || done === tasks.length) {
+        log(`Checked ${done}/${tasks.length}`);
+      }
+    },
+    (_, e) => ({ status: 'offline' as const, latency: null, error: e instanceof Error ? e.message : String(e) }),
+    { concurrency, perHost: PER_HOST_CONCURRENCY }
+  );
+};
+
+const main = async () => {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      out: { type: 'string', short: 'o', default: 'playlist.m3u' },
+      format: { type: 'string', short: 'f' },
+      preset: { type: 'string', short: 'p', multiple: true, default: [] },
+      category: { type: 'string', short: 'c', default: 'China' },
+      concurrency: { type: 'string', default: String(CHECK_CONCURRENCY) },
+      timeout: { type: 'string', default: String(TIMEOUT_MS) },
+      deep: { type: 'boolean', default: false },
+      help: { type: 'boolean', short: 'h', default: false }
+    }
+  });
+
+  if (values.help) {
+    log(USAGE);
+    return;
+  }
+
+  const format = (values.format || extname(values.out).slice(1) || 'm3u').toLowerCase();
+  if (!(format in EXPORT_FORMATS)) throw new Error(`Unsupported format: ${format}`);
+  const concurrency = Math.max(1, parseInt(values.concurrency, 10) || CHECK_CONCURRENCY);
+  const timeoutMs = Math.max(1, parseInt(values.timeout, 10) || TIMEOUT_MS);
+
+  const playlists = await loadPlaylists(positionals, values.preset, values.category);
+  if (playlists.length === 0) throw new Error('No playlists could be loaded');
+
+  const channels = parseAndAggregate(playlists);
+  log(`Parsed ${channels.length} channels`);
+
+  await checkAll(channels, concurrency, timeoutMs, values.deep);
+
+  // Keep online sources only, best first; drop channels left with nothing
+  const curated = channels
+    .map(ch => ({ ...ch, sources: rankSources(ch.sources.filter(s => s.status === 'online')) }))
+    .filter(ch => ch.sources.length > 0);
+
+  const output = exportChannels(curated, format as ExportFormat);
+  await writeFile(values.out, output, 'utf8');
+
+  const onlineCount = curated.reduce((sum, ch) => sum + ch.sources.length, 0);
+  log(`Wrote ${curated.length} channels / ${onlineCount} sources to ${values.out}`);
+};
+
+main().catch(e => {
+  log(`Error: ${e instanceof Error ? e.message : e}`);
+  process.exit(1);
+});
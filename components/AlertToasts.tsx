@@ -0,0 +1,51 @@
+import React from 'react';
+import { X, WifiOff, Wifi } from 'lucide-react';
+import { MonitorAlert } from '../types';
+
+interface AlertToastsProps {
+  alerts: MonitorAlert[];
+  onDismiss: (id: string) => void;
+  onClear: () => void;
+  onSelect: (channelId: string) => void;
+}
+
+const VISIBLE_ALERTS = 5;
+
+/**
+ * In-app notifications raised by the background monitor
+ */
+const AlertToasts: React.FC<AlertToastsProps> = ({ alerts, onDismiss, onClear, onSelect }) => {
+  if (alerts.length === 0) return null;
+
+  return (
+    <div className="fixed bottom-4 left-4 z-50 w-72 space-y-2">
+      {alerts.slice(0, VISIBLE_ALERTS).map(alert => (
+        <div
+          key={alert.id}
+          className={`flex items-start gap-2 p-3 rounded-lg border shadow-xl text-sm bg-slate-900
+            ${alert.kind === 'down' ? 'border-red-900/60' : 'border-green-900/60'}`}
+        >
+          {alert.kind === 'down'
+            ? <WifiOff size={16} className="text-red-400 mt-0.5 shrink-0" />
+            : <Wifi size={16} className="text-green-400 mt-0.5 shrink-0" />}
+          <button onClick={() => onSelect(alert.channelId)} className="flex-1 min-w-0 text-left">
+            <div className="text-slate-200 truncate">{alert.channelName}</div>
+            <div className="text-xs text-slate-500">
+              {alert.kind === 'down' ? '所有信号源均已失效' : '已恢复在线'} · {new Date(alert.ts).toLocaleTimeString('zh-CN', { hour12: false })}
+            </div>
+          </button>
+          <button onClick={() => onDismiss(alert.id)} className="text-slate-500 hover:text-white">
+            <X size={14} />
+          </button>
+        </div>
+      ))}
+      {alerts.length > 1 && (
+        <button onClick={onClear} className="w-full text-xs text-slate-500 hover:text-slate-300 py-1">
+          清除全部 ({alerts.length})
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default AlertToasts;
@@ -0,0 +1,65 @@
+import React, { useState } from 'react';
+import { Merge, Split } from 'lucide-react';
+import { Channel } from '../types';
+
+interface ChannelNamesProps {
+  channel: Channel;
+  channelNames: string[]; // Merge targets offered in the picker
+  onMerge: (rawNames: string[], target: string) => void;
+  onSplit: (rawName: string) => void;
+}
+
+/**
+ * Playlist names merged into a channel, with manual merge/split controls
+ */
+const ChannelNames: React.FC<ChannelNamesProps> = ({ channel, channelNames, onMerge, onSplit }) => {
+  const [target, setTarget] = useState('');
+  const listId = `merge-targets-${channel.id}`;
+
+  const submit = () => {
+    const name = target.trim();
+    if (!name || name === channel.name) return;
+    onMerge(channel.rawNames, name);
+    setTarget('');
+  };
+
+  return (
+    <div className="px-4 py-2 flex flex-wrap items-center gap-2 text-xs border-b border-slate-800/50">
+      <span className="text-slate-500">原始名称:</span>
+      {channel.rawNames.map(raw => (
+        <span key={raw} className="flex items-center gap-1 px-1.5 py-0.5 rounded bg-slate-800 text-slate-300 border border-slate-700">
+          {raw}
+          {channel.rawNames.length > 1 && (
+            <button onClick={() => onSplit(raw)} className="text-slate-500 hover:text-amber-400" title="拆分为独立频道">
+              <Split size={12} />
+            </button>
+          )}
+        </span>
+      ))}
+      <div className="flex items-center gap-1 ml-auto">
+        <input
+          type="text"
+          list={listId}
+          placeholder="合并到频道..."
+          value={target}
+          onChange={(e) => setTarget(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && submit()}
+          className="w-36 bg-slate-950 border border-slate-700 rounded px-2 py-1 focus:outline-none focus:ring-1 focus:ring-cyan-500"
+        />
+        <datalist id={listId}>
+          {channelNames.map(name => <option key={name} value={name} />)}
+        </datalist>
+        <button
+          onClick={submit}
+          disabled={!target.trim()}
+          className="p-1.5 rounded bg-slate-800 hover:bg-slate-700 text-slate-300 disabled:opacity-40"
+          title="把这个频道的所有源合并到目标频道"
+        >
+          <Merge size={12} />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ChannelNames;
@@ -0,0 +1,363 @@
+import React from 'react';
+import {
+  Play,
+  Tv,
+  ChevronDown,
+  ChevronRight,
+  RefreshCw,
+  Globe,
+  MonitorPlay,
+  AlertCircle,
+  ShieldAlert,
+  Star,
+  Gauge,
+  LayoutGrid,
+  AlertTriangle
+} from 'lucide-react';
+import { Channel, ChannelList, EpgNowNext as EpgNowNextEntry, ProbeStage, Source } from '../types';
+import EpgNowNext from './EpgNowNext';
+import GroupPicker from './GroupPicker';
+import ChannelNames from './ChannelNames';
+import ReliabilityBadge from './ReliabilityBadge';
+import QualityBadge from './QualityBadge';
+import { isPlayable, streamTypeOf, STREAM_TYPE_LABELS } from '../utils/streamType';
+import { ISP_LABELS } from '../utils/network';
+
+const stageLabel = (stage?: ProbeStage) =>
+  stage === 'segment' ? '播放列表可访问，但媒体分片无法下载'
+  : stage === 'playlist' ? '主播放列表可访问，但子播放列表无法获取'
+  : stage === 'manifest' ? '播放列表无法访问'
+  : undefined;
+
+// One line per listing: playlist, line and the name it used
+const originDetails = (source: Source) => source.origins
+  .map(o => `${o.playlist}${o.line ? ` 第 ${o.line} 行` : ''}: ${o.rawName}`)
+  .join('\n');
+
+// Short network tags shown next to the stream type
+const networkTags = (source: Source): string[] => {
+  const network = source.network;
+  if (!network) return [];
+  return [
+    network.ipv6 && 'IPv6',
+    network.isp && ISP_LABELS[network.isp],
+    network.local === 'lan' ? '局域网' : network.local === 'multicast' && '组播'
+  ].filter((tag): tag is string => !!tag);
+};
+
+// Handlers are stable (see useStableCallbacks), so they don't defeat memoization
+export interface ChannelRowActions {
+  toggleExpand: (channelId: string) => void;
+  toggleStar: (channelId: string) => void;
+  toggleInGroup: (groupId: string, channelId: string) => void;
+  createGroup: (name: string) => string;
+  checkChannel: (e: React.MouseEvent, channel: Channel) => void;
+  playBest: (e: React.MouseEvent, channel: Channel) => void;
+  playSource: (e: React.MouseEvent, source: Source, channel: Channel) => void;
+  deepTest: (channel: Channel, sources: Source[]) => void;
+  addToWall: (channel: Channel) => void;
+  merge: (rawNames: string[], target: string) => void;
+  split: (rawName: string) => void;
+  dragStart: (channelId: string) => void;
+  dragEnd: () => void;
+  drop: (channelId: string) => void;
+}
+
+interface ChannelRowProps {
+  channel: Channel;
+  expanded: boolean;
+  starred: boolean;
+  groups: ChannelList[];
+  nowNext?: EpgNowNextEntry;
+  now: number;
+  draggable: boolean;
+  canDrop: boolean; // Another row is being dragged
+  isDragging: boolean;
+  channelNames?: string[]; // Only needed (and passed) while expanded
+  testing?: Set<string>; // Source ids with a deep test queued or running, passed while expanded
+  actions: ChannelRowActions;
+}
+
+/**
+ * One channel card: header row plus the expandable source table.
+ * Memoized: check updates keep untouched channels' identity, so only changed rows re-render.
+ */
+const ChannelRow: React.FC<ChannelRowProps> = ({
+  channel, expanded, starred, groups, nowNext, now, draggable, canDrop, isDragging, channelNames, testing, actions
+}) => {
+  const hasBest = !!channel.bestSource;
+  // Online is true only if status is explicitly online
+  const isOnline = hasBest && channel.bestSource?.status === 'online';
+
+  // Determine if this channel has any sources being checked right now
+  const isChannelChecking = channel.sources.some(s => s.status === 'checking');
+  // Determine if we have "Error" sources which might just be CORS issues
+  const hasErrors = channel.sources.some(s => s.status === 'error');
+  // RTMP/RTSP/multicast/P2P-only channels have nothing a browser can play
+  const playable = channel.sources.some(isPlayable);
+
+  return (
+    <div
+      draggable={draggable}
+      onDragStart={() => actions.dragStart(channel.id)}
+      onDragEnd={actions.dragEnd}
+      onDragOver={(e) => canDrop && e.preventDefault()}
+      onDrop={() => actions.drop(channel.id)}
+      className={`bg-slate-900/40 border border-slate-800 rounded-xl overflow-hidden hover:border-slate-700 transition-colors
+        ${isDragging ? 'opacity-50' : ''}`}
+    >
+      {/* Channel Header Row */}
+      <div 
+        onClick={() => actions.toggleExpand(channel.id)}
+        className="flex items-center p-4 cursor-pointer hover:bg-slate-800/50 transition-colors"
+      >
+        <div className="mr-3 text-slate-500">
+          {expanded ? <ChevronDown size={20} /> : <ChevronRight size={20} />}
+        </div>
+        
+        {/* Icon / Avatar */}
+        <div className={`w-10 h-10 rounded-lg flex items-center justify-center mr-4 overflow-hidden
+          ${isOnline ? 'bg-green-500/10 text-green-400' : hasErrors ? 'bg-orange-500/10 text-orange-400' : 'bg-slate-800 text-slate-500'}`}>
+          {channel.logo ? (
+            <img src={channel.logo} alt="" loading="lazy" className="w-full h-full object-contain p-1" referrerPolicy="no-referrer" />
+          ) : channel.category === 'China' ? <Tv size={20} /> : <Globe size={20} />}
+        </div>
+
+        {/* Name & Badge */}
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center gap-2">
+             {channel.chno && (
+               <span className="font-mono text-xs text-slate-500">{channel.chno}</span>
+             )}
+             <h3 className="font-medium text-slate-200 truncate">{channel.name}</h3>
+             <span className="text-[10px] px-1.5 py-0.5 rounded bg-slate-800 text-slate-400 border border-slate-700">
+                {channel.sources.length} 源
+             </span>
+             {channel.sources.some(s => s.sharedWith) && (
+               <span
+                 className="text-[10px] px-1.5 py-0.5 rounded bg-amber-500/10 text-amber-400 border border-amber-500/30"
+                 title="有信号源与其他频道的地址相同，展开查看"
+               >
+                 疑似错台
+               </span>
+             )}
+             {channel.group && (
+               <span className="text-[10px] px-1.5 py-0.5 rounded bg-slate-800 text-slate-500 border border-slate-700 hidden sm:inline-block">
+                 {channel.group}
+               </span>
+             )}
+          </div>
+          <div className="flex items-center gap-2 mt-1 text-xs">
+            {isChannelChecking ? (
+               <span className="text-cyan-400 flex items-center gap-1">
+                 <RefreshCw size={10} className="animate-spin" /> 检测中...
+               </span>
+            ) : isOnline ? (
+              <>
+                <span className="text-green-400 flex items-center gap-1">
+                  <span className="w-1.5 h-1.5 rounded-full bg-green-500"></span> 在线
+                </span>
+                {channel.bestSource?.resolution && (
+                   <span className="text-indigo-400 bg-indigo-500/10 px-1 rounded">{channel.bestSource.resolution}</span>
+                )}
+                <span className={`${(channel.bestSource?.latency || 9999) < 500 ? 'text-green-400' : 'text-yellow-400'}`}>
+                  {channel.bestSource?.latency}ms
+                </span>
+              </>
+            ) : hasBest && channel.bestSource?.status === 'degraded' ? (
+              <span className="text-amber-400 flex items-center gap-1" title={stageLabel(channel.bestSource.failedStage)}>
+                <span className="w-1.5 h-1.5 rounded-full bg-amber-500"></span> 清单正常 / 无法播放
+              </span>
+            ) : hasErrors ? (
+              <span className="text-orange-400 flex items-center gap-1" title="浏览器无法直接检测，但可能可以播放">
+                 <ShieldAlert size={12} /> 未知 (CORS)
+              </span>
+            ) : hasBest && channel.bestSource?.status === 'offline' ? (
+              <span className="text-red-400 flex items-center gap-1">
+                <span className="w-1.5 h-1.5 rounded-full bg-red-500"></span> 离线
+              </span>
+            ) : (
+              <span className="text-slate-600">未检测</span>
+            )}
+          </div>
+          <EpgNowNext entry={nowNext} now={now} />
+        </div>
+
+        {/* Actions */}
+        <div className="flex items-center gap-2">
+           <button
+             onClick={(e) => {
+               e.stopPropagation();
+               actions.toggleStar(channel.id);
+             }}
+             className={`p-2 rounded-lg transition-colors hover:bg-slate-800 ${starred ? 'text-yellow-400' : 'text-slate-400 hover:text-slate-200'}`}
+             title={starred ? '取消收藏' : '收藏'}
+           >
+             <Star size={18} fill={starred ? 'currentColor' : 'none'} />
+           </button>
+           <GroupPicker
+             channelId={channel.id}
+             groups={groups}
+             onToggle={actions.toggleInGroup}
+             onCreate={actions.createGroup}
+           />
+           <button 
+             onClick={(e) => actions.checkChannel(e, channel)}
+             className="p-2 text-slate-400 hover:text-cyan-400 hover:bg-cyan-950/50 rounded-lg transition-colors"
+             title="检测此频道所有源"
+           >
+             <RefreshCw size={18} className={isChannelChecking ? "animate-spin text-cyan-400" : ""} />
+           </button>
+           <button
+             onClick={(e) => {
+               e.stopPropagation();
+               actions.addToWall(channel);
+             }}
+             className="p-2 text-slate-400 hover:text-slate-200 hover:bg-slate-800 rounded-lg transition-colors"
+             title="加入多画面"
+           >
+             <LayoutGrid size={18} />
+           </button>
+           <button 
+             onClick={(e) => actions.playBest(e, channel)}
+             disabled={!playable}
+             className={`p-2 rounded-lg transition-colors flex items-center gap-2
+               ${!playable
+                 ? 'bg-slate-800/50 text-slate-600 cursor-not-allowed'
+                 : isOnline
+                 ? 'bg-cyan-600 text-white shadow-lg hover:bg-cyan-500' 
+                 : 'bg-slate-800 text-slate-500 hover:bg-slate-700 hover:text-slate-300'}`}
+             title={playable ? undefined : '该频道只有浏览器无法播放的信号源 (RTMP/RTSP/组播/P2P)'}
+           >
+             <Play size={18} fill={isOnline && playable ? "currentColor" : "none"} />
+             <span className="hidden sm:inline text-xs font-medium">{playable ? '播放' : '不支持'}</span>
+           </button>
+        </div>
+      </div>
+
+      {/* Sources List (Expanded) */}
+      {expanded && (
+        <div className="border-t border-slate-800 bg-slate-950/30">
+          <ChannelNames
+            channel={channel}
+            channelNames={channelNames || []}
+            onMerge={actions.merge}
+            onSplit={actions.split}
+          />
+          <div className="overflow-x-auto">
+            <table className="w-full text-left text-xs sm:text-sm">
+              <thead className="text-slate-500 font-medium border-b border-slate-800/50">
+                 <tr>
+                   <th className="px-4 py-2 w-12 text-center">#</th>
+                   <th className="px-4 py-2">源地址 (URL)</th>
+                   <th className="px-4 py-2 w-24 text-center">格式</th>
+                   <th className="px-4 py-2 w-28 text-center">状态</th>
+                   <th className="px-4 py-2 w-24 text-center" title="历史可用率 / 延迟 P50/P95">可靠性</th>
+                   <th className="px-4 py-2 w-24 text-center" title="深度测试: 首帧时间 / 帧率 / 卡顿">播放质量</th>
+                   <th className="px-4 py-2 w-24 text-right">操作</th>
+                 </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-800/50">
+                 {channel.sources.map((source, idx) => {
+                   const type = streamTypeOf(source);
+                   const supported = isPlayable(source);
+                   return (
+                   <tr key={source.id} className="hover:bg-slate-800/30 transition-colors">
+                     <td className="px-4 py-3 text-center text-slate-600">{idx + 1}</td>
+                     <td className="px-4 py-3 max-w-[150px] sm:max-w-xs">
+                       <div className="flex items-center gap-1">
+                         {source.sharedWith && (
+                           <span title={`同一地址也出现在: ${source.sharedWith.join('、')}，可能标错了频道`}>
+                             <AlertTriangle size={12} className="text-amber-500 shrink-0" />
+                           </span>
+                         )}
+                         <span className="font-mono text-slate-400 truncate" title={source.url}>{source.url}</span>
+                       </div>
+                       <div className="text-[10px] text-slate-600 truncate">
+                         <span title={originDetails(source)}>{[...new Set(source.origins.map(o => o.playlist))].join(' · ')}</span>
+                         {source.aliases && (
+                           <span className="ml-1 text-slate-500" title={`已合并的相同地址:\n${source.aliases.join('\n')}`}>
+                             +{source.aliases.length} 个相同地址
+                           </span>
+                         )}
+                       </div>
+                     </td>
+                     <td className="px-4 py-3 text-center whitespace-nowrap">
+                        {type !== 'unknown' && (
+                          <span className={`mr-1 px-1 py-0.5 rounded text-[10px] font-mono ${supported ? 'bg-slate-800 text-slate-400' : 'bg-slate-800/50 text-slate-600'}`}>
+                            {STREAM_TYPE_LABELS[type]}
+                          </span>
+                        )}
+                        {networkTags(source).map(tag => (
+                          <span key={tag} className="mr-1 px-1 py-0.5 rounded text-[10px] bg-slate-800/50 text-slate-500">
+                            {tag}
+                          </span>
+                        ))}
+                        {source.resolution ? (
+                          <span className="bg-indigo-900/30 text-indigo-400 px-1.5 py-0.5 rounded border border-indigo-900/50">
+                            {source.resolution}
+                          </span>
+                        ) : type === 'unknown' && '-'}
+                     </td>
+                     <td className="px-4 py-3 text-center">
+                       {!supported ? (
+                         <span className="text-slate-500 cursor-help" title="浏览器无法检测或播放此协议，请使用外部播放器">不支持</span>
+                       ) : source.status === 'checking' ? (
+                          <RefreshCw size={12} className="animate-spin inline text-cyan-500" />
+                       ) : source.status === 'online' ? (
+                         <span className={`${(source.latency || 9999) < 200 ? 'text-green-400' : 'text-yellow-400'}`}>
+                           {source.latency}ms
+                         </span>
+                       ) : source.status === 'degraded' ? (
+                         <span className="text-amber-400 cursor-help" title={stageLabel(source.failedStage)}>
+                           {source.failedStage === 'segment' ? '分片失效' : '子列表失效'}
+                         </span>
+                       ) : source.status === 'offline' ? (
+                         <span className="text-red-500">失效</span>
+                       ) : source.status === 'error' ? (
+                          <span className="text-orange-400 flex items-center justify-center gap-1 cursor-help" title="浏览器跨域限制，无法检测延迟，但点击播放可能可用">
+                            <AlertCircle size={12} /> N/A (CORS)
+                          </span>
+                       ) : (
+                         <span className="text-slate-600">-</span>
+                       )}
+                     </td>
+                     <td className="px-4 py-3 text-center">
+                       <ReliabilityBadge reliability={source.reliability} />
+                     </td>
+                     <td className="px-4 py-3 text-center">
+                       <QualityBadge quality={source.quality} />
+                     </td>
+                     <td className="px-4 py-3 text-right whitespace-nowrap">
+                        <button
+                          onClick={() => actions.deepTest(channel, [source])}
+                          disabled={!supported || testing?.has(source.id)}
+                          className="text-slate-400 hover:text-white p-1 hover:bg-slate-700 rounded transition-colors disabled:opacity-100 disabled:text-slate-700 disabled:hover:bg-transparent"
+                          title="深度测试 (静音播放数秒并记录播放质量)"
+                        >
+                          {testing?.has(source.id)
+                            ? <RefreshCw size={16} className="animate-spin text-cyan-500" />
+                            : <Gauge size={16} />}
+                        </button>
+                        <button 
+                          onClick={(e) => actions.playSource(e, source, channel)}
+                          disabled={!supported}
+                          className="text-slate-400 hover:text-white p-1 hover:bg-slate-700 rounded transition-colors disabled:text-slate-700 disabled:hover:bg-transparent"
+                          title={supported ? '尝试播放' : `浏览器无法播放 ${STREAM_TYPE_LABELS[type]}`}
+                        >
+                          <MonitorPlay size={16} />
+                        </button>
+                     </td>
+                   </tr>
+                   );
+                 })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default React.memo(ChannelRow);
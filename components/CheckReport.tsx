@@ -0,0 +1,186 @@
+import React, { useMemo, useState } from 'react';
+import { X, FileBarChart, Download } from 'lucide-react';
+import { CheckRun } from '../types';
+import { buildReport, reportToCsv, reportToJson, ReportEntry, StatusCounts, STATUS_LABELS } from '../utils/report';
+
+interface CheckReportProps {
+  runs: CheckRun[]; // Oldest first; each run is diffed against the one before it
+  onClose: () => void;
+}
+
+const LIST_LIMIT = 50;
+
+const formatRunTime = (ms: number) =>
+  new Date(ms).toLocaleString('zh-CN', { month: 'numeric', day: 'numeric', hour: '2-digit', minute: '2-digit', hour12: false });
+
+const uptime = (c: StatusCounts) => {
+  const conclusive = c.total - c.cors;
+  return conclusive > 0 ? `${Math.round((c.online / conclusive) * 100)}%` : '-';
+};
+
+const CountsTable: React.FC<{ title: string, rows: StatusCounts[] }> = ({ title, rows }) => (
+  <div className="min-w-0">
+    <h4 className="text-xs text-slate-500 mb-1">{title}</h4>
+    <div className="max-h-56 overflow-y-auto border border-slate-800 rounded-lg">
+      <table className="w-full text-xs">
+        <thead className="text-slate-500 bg-slate-950 sticky top-0">
+          <tr>
+            <th className="px-2 py-1 text-left">名称</th>
+            <th className="px-2 py-1 text-right">源</th>
+            <th className="px-2 py-1 text-right text-green-500">在线</th>
+            <th className="px-2 py-1 text-right text-amber-500">降级</th>
+            <th className="px-2 py-1 text-right text-red-500">失效</th>
+            <th className="px-2 py-1 text-right text-orange-400">CORS</th>
+            <th className="px-2 py-1 text-right" title="在线 / (总数 - CORS)">可用率</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-slate-800/60 font-mono">
+          {rows.map(row => (
+            <tr key={row.name} className="text-slate-300">
+              <td className="px-2 py-1 font-sans truncate max-w-[10rem]" title={row.name}>{row.name}</td>
+              <td className="px-2 py-1 text-right">{row.total}</td>
+              <td className="px-2 py-1 text-right">{row.online}</td>
+              <td className="px-2 py-1 text-right">{row.degraded}</td>
+              <td className="px-2 py-1 text-right">{row.offline}</td>
+              <td className="px-2 py-1 text-right">{row.cors}</td>
+              <td className="px-2 py-1 text-right">{uptime(row)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  </div>
+);
+
+const EntryList: React.FC<{ title: string, entries: ReportEntry[], detail: (entry: ReportEntry) => string, tone: string }> = ({ title, entries, detail, tone }) => (
+  <div className="min-w-0">
+    <h4 className="text-xs text-slate-500 mb-1">{title} <span className="font-mono">({entries.length})</span></h4>
+    {entries.length === 0 ? (
+      <p className="text-xs text-slate-600">无</p>
+    ) : (
+      <ul className="max-h-40 overflow-y-auto text-xs space-y-0.5">
+        {entries.slice(0, LIST_LIMIT).map(e => (
+          <li key={e.sourceId} className="flex gap-2" title={e.url}>
+            <span className="truncate text-slate-300">{e.channel}</span>
+            <span className="truncate text-slate-600">{e.playlists.join(' / ')}</span>
+            <span className={`ml-auto shrink-0 font-mono ${tone}`}>{detail(e)}</span>
+          </li>
+        ))}
+        {entries.length > LIST_LIMIT && <li className="text-slate-600">… 另有 {entries.length - LIST_LIMIT} 个</li>}
+      </ul>
+    )}
+  </div>
+);
+
+/**
+ * Report for one "检测全部" run: counts by subscription and group, fastest and
+ * slowest sources, channels left without a working source, and what changed
+ * since the run before. Exportable as CSV (one row per source) or JSON.
+ */
+const CheckReport: React.FC<CheckReportProps> = ({ runs, onClose }) => {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const index = selectedId ? runs.findIndex(r => r.id === selectedId) : runs.length - 1;
+  const run = runs[index] ?? runs[runs.length - 1];
+  const previous = index > 0 ? runs[index - 1] : undefined;
+
+  const report = useMemo(() => run && buildReport(run, previous), [run, previous]);
+
+  const download = (format: 'csv' | 'json') => {
+    if (!report) return;
+    const content = format === 'csv' ? reportToCsv(report) : reportToJson(report);
+    const blob = new Blob([content], { type: `${format === 'csv' ? 'text/csv' : 'application/json'};charset=utf-8` });
+    const a = document.createElement('a');
+    a.href = URL.createObjectURL(blob);
+    a.download = `iptv-report-${new Date(report.run.startedAt).toISOString().slice(0, 16).replace(/[:T]/g, '-')}.${format}`;
+    a.click();
+    setTimeout(() => URL.revokeObjectURL(a.href), 1000);
+  };
+
+  const buttonClass = 'px-3 py-1.5 rounded-lg bg-slate-800 hover:bg-slate-700 text-slate-300 disabled:opacity-50 flex items-center gap-1 text-xs';
+
+  return (
+    <div className="bg-slate-900 border border-slate-800 rounded-xl p-4 space-y-4 text-sm">
+      <div className="flex items-center gap-3">
+        <h3 className="font-medium text-slate-200 flex items-center gap-2">
+          <FileBarChart size={16} className="text-cyan-400" /> 检测报告
+        </h3>
+        {runs.length > 0 && (
+          <select
+            value={run?.id}
+            onChange={(e) => setSelectedId(e.target.value)}
+            className="bg-slate-950 border border-slate-700 rounded-lg px-2 py-1 text-xs"
+          >
+            {[...runs].reverse().map(r => (
+              <option key={r.id} value={r.id}>
+                {formatRunTime(r.startedAt)} · {r.entries.length} 个源{r.cancelled ? ' (已中断)' : ''}
+              </option>
+            ))}
+          </select>
+        )}
+        <div className="ml-auto flex items-center gap-2">
+          <button onClick={() => download('csv')} disabled={!report} className={buttonClass}>
+            <Download size={14} /> CSV
+          </button>
+          <button onClick={() => download('json')} disabled={!report} className={buttonClass}>
+            <Download size={14} /> JSON
+          </button>
+          <button onClick={onClose} className="text-slate-400 hover:text-white transition-colors">
+            <X size={16} />
+          </button>
+        </div>
+      </div>
+
+      {!report ? (
+        <p className="text-xs text-slate-500">还没有检测记录，点击"检测全部"后会在这里生成报告。</p>
+      ) : (
+        <>
+          <div className="flex flex-wrap gap-x-5 gap-y-1 text-xs text-slate-400">
+            <span>共 <span className="font-mono text-slate-200">{report.totals.total}</span> 个源</span>
+            <span className="text-green-400">在线 <span className="font-mono">{report.totals.online}</span></span>
+            <span className="text-amber-400">降级 <span className="font-mono">{report.totals.degraded}</span></span>
+            <span className="text-red-400">失效 <span className="font-mono">{report.totals.offline}</span></span>
+            <span className="text-orange-400">CORS <span className="font-mono">{report.totals.cors}</span></span>
+            <span>无可用源的频道 <span className="font-mono text-slate-200">{report.deadChannels.length}</span></span>
+            <span className="text-slate-600">
+              用时 {Math.round((report.run.finishedAt - report.run.startedAt) / 1000)}s
+              {report.previous ? ` · 对比 ${formatRunTime(report.previous.startedAt)}` : ' · 无上次记录可对比'}
+            </span>
+          </div>
+
+          <div className="grid md:grid-cols-2 gap-4">
+            <CountsTable title="按订阅" rows={report.byPlaylist} />
+            <CountsTable title="按分组" rows={report.byGroup} />
+          </div>
+
+          {report.previous && (
+            <div className="grid md:grid-cols-3 gap-4">
+              <EntryList title="新失效" entries={report.newlyDead} tone="text-red-400" detail={e => STATUS_LABELS[e.status]} />
+              <EntryList title="恢复" entries={report.newlyAlive} tone="text-green-400" detail={e => `${e.latency}ms`} />
+              <EntryList title="延迟变差" entries={report.slower} tone="text-amber-400" detail={e => `${e.previousLatency} → ${e.latency}ms`} />
+            </div>
+          )}
+
+          <div className="grid md:grid-cols-3 gap-4">
+            <EntryList title="最快的源" entries={report.fastest} tone="text-green-400" detail={e => `${e.latency}ms`} />
+            <EntryList title="最慢的源" entries={report.slowest} tone="text-yellow-400" detail={e => `${e.latency}ms`} />
+            <div className="min-w-0">
+              <h4 className="text-xs text-slate-500 mb-1">无可用源的频道 <span className="font-mono">({report.deadChannels.length})</span></h4>
+              <ul className="max-h-40 overflow-y-auto text-xs space-y-0.5">
+                {report.deadChannels.slice(0, LIST_LIMIT).map(ch => (
+                  <li key={ch.channelId} className="flex gap-2">
+                    <span className="truncate text-slate-300">{ch.channel}</span>
+                    <span className="truncate text-slate-600">{ch.group}</span>
+                    <span className="ml-auto shrink-0 font-mono text-slate-500">{ch.sources} 个源</span>
+                  </li>
+                ))}
+                {report.deadChannels.length > LIST_LIMIT && <li className="text-slate-600">… 另有 {report.deadChannels.length - LIST_LIMIT} 个</li>}
+              </ul>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default CheckReport;
@@ -0,0 +1,70 @@
+import React, { useEffect, useRef } from 'react';
+import { History } from 'lucide-react';
+import { EpgProgramme } from '../types';
+import { formatTime } from '../utils/epg';
+
+interface EpgGuideProps {
+  programmes: EpgProgramme[];
+  now: number;
+  canReplay?: (programme: EpgProgramme) => boolean; // Set when the channel has catch-up
+  onReplay?: (programme: EpgProgramme) => void;
+  replaying?: number; // Start of the programme being replayed
+}
+
+const formatDay = (ms: number) =>
+  new Date(ms).toLocaleDateString('zh-CN', { month: 'numeric', day: 'numeric', weekday: 'short' });
+
+/**
+ * Programme list; the current programme is highlighted and scrolled into view.
+ * With catch-up, past programmes (and the current one, from its start) can be replayed.
+ */
+const EpgGuide: React.FC<EpgGuideProps> = ({ programmes, now, canReplay, onReplay, replaying }) => {
+  const currentRef = useRef<HTMLLIElement>(null);
+
+  useEffect(() => {
+    currentRef.current?.scrollIntoView({ block: 'center' });
+  }, [programmes]);
+
+  if (programmes.length === 0) {
+    return <div className="px-3 py-2 text-xs text-slate-500">暂无节目单</div>;
+  }
+
+  return (
+    <ul className="max-h-48 overflow-y-auto divide-y divide-slate-800/60 text-xs">
+      {programmes.map((p, i) => {
+        const isCurrent = p.start <= now && now < p.stop;
+        const isPast = p.stop <= now;
+        const isReplaying = replaying === p.start;
+        const replayable = !!onReplay && p.start < now && !!canReplay?.(p);
+        // Guides that reach back into previous days get a date line per day
+        const newDay = i > 0 && formatDay(p.start) !== formatDay(programmes[i - 1].start);
+        return (
+          <React.Fragment key={`${p.start}-${p.title}`}>
+            {newDay && (
+              <li className="px-3 py-1 bg-slate-950 text-slate-500 text-[10px]">{formatDay(p.start)}</li>
+            )}
+            <li
+              ref={isCurrent ? currentRef : undefined}
+              className={`group px-3 py-1.5 flex items-center gap-2 ${isReplaying ? 'bg-amber-950/40 text-amber-300' : isCurrent ? 'bg-cyan-950/40 text-cyan-300' : isPast ? 'text-slate-600' : 'text-slate-300'}`}
+              title={p.desc}
+            >
+              <span className="font-mono shrink-0">{formatTime(p.start)}</span>
+              <span className="truncate">{p.title}</span>
+              {replayable && (
+                <button
+                  onClick={() => onReplay!(p)}
+                  className={`ml-auto shrink-0 p-0.5 rounded hover:text-white hover:bg-slate-700 ${isReplaying ? '' : 'opacity-0 group-hover:opacity-100'}`}
+                  title={isCurrent ? '从头观看' : '回看'}
+                >
+                  <History size={12} />
+                </button>
+              )}
+            </li>
+          </React.Fragment>
+        );
+      })}
+    </ul>
+  );
+};
+
+export default EpgGuide;
@@ -0,0 +1,40 @@
+import React from 'react';
+import { EpgNowNext as EpgNowNextData } from '../types';
+import { formatTime } from '../utils/epg';
+
+interface EpgNowNextProps {
+  entry?: EpgNowNextData;
+  now: number;
+}
+
+const EpgNowNext: React.FC<EpgNowNextProps> = ({ entry, now }) => {
+  if (!entry || (!entry.now && !entry.next)) return null;
+  const current = entry.now;
+  const progress = current
+    ? Math.min(100, Math.max(0, ((now - current.start) / Math.max(1, current.stop - current.start)) * 100))
+    : 0;
+
+  return (
+    <div className="mt-1.5 text-[11px] text-slate-400 max-w-md">
+      {current && (
+        <div className="flex items-center gap-2">
+          <span className="text-slate-500 font-mono">{formatTime(current.start)}</span>
+          <span className="truncate text-slate-300" title={current.desc || current.title}>{current.title}</span>
+        </div>
+      )}
+      {current && (
+        <div className="h-0.5 bg-slate-800 rounded-full overflow-hidden my-1">
+          <div className="h-full bg-cyan-600" style={{ width: `${progress}%` }} />
+        </div>
+      )}
+      {entry.next && (
+        <div className="flex items-center gap-2 text-slate-500">
+          <span className="font-mono">{formatTime(entry.next.start)}</span>
+          <span className="truncate">接下来: {entry.next.title}</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EpgNowNext;
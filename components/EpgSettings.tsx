@@ -0,0 +1,99 @@
+import React, { useState } from 'react';
+import { X, Upload, RefreshCw, CalendarClock } from 'lucide-react';
+import { EpgLoadResult } from '../utils/epg';
+
+interface EpgSettingsProps {
+  url: string;
+  playlistUrls: string[]; // x-tvg-url values found in the loaded playlists
+  files: string[];
+  loading: boolean;
+  status: EpgLoadResult | null;
+  onUrlChange: (url: string) => void;
+  onUpload: (file: File) => void;
+  onRemoveFile: (name: string) => void;
+  onReload: () => void;
+  onClose: () => void;
+}
+
+const EpgSettings: React.FC<EpgSettingsProps> = ({
+  url, playlistUrls, files, loading, status, onUrlChange, onUpload, onRemoveFile, onReload, onClose
+}) => {
+  const [draft, setDraft] = useState(url);
+
+  return (
+    <div className="bg-slate-900 border border-slate-800 rounded-xl p-4 space-y-3 text-sm">
+      <div className="flex items-center justify-between">
+        <h3 className="font-medium text-slate-200 flex items-center gap-2">
+          <CalendarClock size={16} className="text-cyan-400" /> 节目单 (EPG)
+        </h3>
+        <button onClick={onClose} className="text-slate-400 hover:text-white transition-colors">
+          <X size={16} />
+        </button>
+      </div>
+
+      <div className="flex gap-2">
+        <input
+          type="text"
+          placeholder="XMLTV 地址 (.xml / .xml.gz)"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onBlur={() => draft.trim() !== url && onUrlChange(draft.trim())}
+          onKeyDown={(e) => e.key === 'Enter' && onUrlChange(draft.trim())}
+          className="flex-1 bg-slate-950 border border-slate-700 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-1 focus:ring-cyan-500"
+        />
+        <label className="px-3 py-2 rounded-lg bg-slate-800 hover:bg-slate-700 text-slate-300 cursor-pointer flex items-center gap-1">
+          <Upload size={14} /> 文件
+          <input
+            type="file"
+            accept=".xml,.gz,.xmltv"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) onUpload(file);
+              e.target.value = '';
+            }}
+          />
+        </label>
+        <button
+          onClick={onReload}
+          disabled={loading}
+          className="px-3 py-2 rounded-lg bg-indigo-600 hover:bg-indigo-500 text-white disabled:opacity-50 flex items-center gap-1"
+          title="忽略缓存重新下载"
+        >
+          <RefreshCw size={14} className={loading ? 'animate-spin' : ''} /> 刷新
+        </button>
+      </div>
+
+      {(playlistUrls.length > 0 || files.length > 0) && (
+        <ul className="text-xs text-slate-400 space-y-1">
+          {playlistUrls.map(u => (
+            <li key={u} className="truncate font-mono" title={u}>
+              <span className="text-slate-600">播放列表:</span> {u}
+            </li>
+          ))}
+          {files.map(name => (
+            <li key={name} className="flex items-center gap-2">
+              <span className="text-slate-600">文件:</span>
+              <span className="truncate font-mono">{name}</span>
+              <button onClick={() => onRemoveFile(name)} className="text-slate-500 hover:text-red-400">
+                <X size={12} />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {status && (
+        <div className="text-xs text-slate-500">
+          已加载 <span className="text-slate-300 font-mono">{status.channelCount}</span> 个频道 /
+          <span className="text-slate-300 font-mono"> {status.programmeCount}</span> 个节目
+          {status.errors.map(err => (
+            <div key={err} className="text-red-400 truncate" title={err}>{err}</div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EpgSettings;
@@ -0,0 +1,118 @@
+import React, { useMemo, useState } from 'react';
+import { X, Download, Copy, Check } from 'lucide-react';
+import { Channel } from '../types';
+import { EXPORT_FORMATS, ExportFormat, ExportOptions, exportChannels, prepareExport } from '../utils/exporter';
+import { loadSetting, saveSetting } from '../utils/storage';
+
+interface ExportDialogProps {
+  channels: Channel[]; // The current filtered view
+  onClose: () => void;
+}
+
+const DEFAULT_OPTIONS: ExportOptions & { format: ExportFormat } = {
+  format: 'm3u',
+  onlyOnline: true,
+  topN: 0,
+  sortByLatency: false
+};
+
+const TOP_N_OPTIONS = [0, 1, 2, 3, 5, 10];
+
+const ExportDialog: React.FC<ExportDialogProps> = ({ channels, onClose }) => {
+  const [options, setOptions] = useState(() => ({ ...DEFAULT_OPTIONS, ...loadSetting('export', {}) }));
+  const [copied, setCopied] = useState(false);
+
+  const set = <K extends keyof typeof options>(key: K, value: (typeof options)[K]) => {
+    const next = { ...options, [key]: value };
+    setOptions(next);
+    saveSetting('export', next);
+  };
+
+  const curated = useMemo(() => prepareExport(channels, options), [channels, options]);
+  const sourceCount = curated.reduce((sum, ch) => sum + ch.sources.length, 0);
+
+  const download = () => {
+    const { extension, mime } = EXPORT_FORMATS[options.format];
+    const blob = new Blob([exportChannels(curated, options.format)], { type: `${mime};charset=utf-8` });
+    const a = document.createElement('a');
+    a.href = URL.createObjectURL(blob);
+    a.download = `iptv-${new Date().toISOString().slice(0, 10)}.${extension}`;
+    a.click();
+    setTimeout(() => URL.revokeObjectURL(a.href), 1000);
+  };
+
+  const copy = async () => {
+    await navigator.clipboard.writeText(exportChannels(curated, options.format));
+    setCopied(true);
+    setTimeout(() => setCopied(false), 1500);
+  };
+
+  const selectClass = 'bg-slate-950 border border-slate-700 rounded-lg px-2 py-1.5 text-sm';
+
+  return (
+    <div className="bg-slate-900 border border-slate-800 rounded-xl p-4 space-y-3 text-sm">
+      <div className="flex items-center justify-between">
+        <h3 className="font-medium text-slate-200 flex items-center gap-2">
+          <Download size={16} className="text-cyan-400" /> 导出播放列表
+        </h3>
+        <button onClick={onClose} className="text-slate-400 hover:text-white transition-colors">
+          <X size={16} />
+        </button>
+      </div>
+
+      <div className="flex bg-slate-950 p-1 rounded-lg border border-slate-800 w-fit text-xs">
+        {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map(format => (
+          <button
+            key={format}
+            onClick={() => set('format', format)}
+            className={`px-3 py-1.5 rounded-md transition-all ${options.format === format ? 'bg-cyan-600 text-white' : 'text-slate-400 hover:text-slate-200'}`}
+          >
+            {EXPORT_FORMATS[format].label}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-x-5 gap-y-3 text-slate-400">
+        <label className="flex items-center gap-1.5">
+          <input type="checkbox" checked={options.onlyOnline} onChange={(e) => set('onlyOnline', e.target.checked)} />
+          仅在线源
+        </label>
+        <label className="flex items-center gap-2">
+          每频道保留
+          <select className={selectClass} value={options.topN} onChange={(e) => set('topN', parseInt(e.target.value, 10))}>
+            {TOP_N_OPTIONS.map(n => <option key={n} value={n}>{n === 0 ? '全部' : `前 ${n} 个`}</option>)}
+          </select>
+        </label>
+        <label className="flex items-center gap-1.5">
+          <input type="checkbox" checked={options.sortByLatency} onChange={(e) => set('sortByLatency', e.target.checked)} />
+          按延迟排序
+        </label>
+      </div>
+
+      <div className="flex items-center gap-3">
+        <span className="text-xs text-slate-500">
+          <span className="text-slate-300 font-mono">{curated.length}</span> 个频道 /
+          <span className="text-slate-300 font-mono"> {sourceCount}</span> 个源
+        </span>
+        <div className="flex gap-2 ml-auto">
+          <button
+            onClick={copy}
+            disabled={curated.length === 0}
+            className="px-3 py-1.5 rounded-lg bg-slate-800 hover:bg-slate-700 text-slate-300 disabled:opacity-50 flex items-center gap-1"
+          >
+            {copied ? <Check size={14} /> : <Copy size={14} />} 复制
+          </button>
+          <button
+            onClick={download}
+            disabled={curated.length === 0}
+            className="px-4 py-1.5 rounded-lg bg-indigo-600 hover:bg-indigo-500 text-white disabled:opacity-50 flex items-center gap-1"
+          >
+            <Download size={14} /> 下载
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportDialog;
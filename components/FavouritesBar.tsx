@@ -0,0 +1,74 @@
+import React, { useState } from 'react';
+import { Star, Plus, Pencil, Trash2, FolderOpen } from 'lucide-react';
+import { ChannelList } from '../types';
+import { STARRED_LIST } from '../hooks/useFavourites';
+
+interface FavouritesBarProps {
+  starredCount: number;
+  groups: ChannelList[];
+  activeList: string;
+  onSelect: (listId: string) => void;
+  onCreate: (name: string) => void;
+  onRename: (groupId: string, name: string) => void;
+  onDelete: (groupId: string) => void;
+}
+
+/**
+ * Switches between the starred list and the custom groups inside the Favourites tab
+ */
+const FavouritesBar: React.FC<FavouritesBarProps> = ({ starredCount, groups, activeList, onSelect, onCreate, onRename, onDelete }) => {
+  const activeGroup = groups.find(g => g.id === activeList);
+
+  const chip = (selected: boolean) =>
+    `px-3 py-1.5 rounded-lg text-xs border flex items-center gap-1 transition-colors
+      ${selected ? 'bg-cyan-950/60 border-cyan-500/60 text-cyan-300' : 'bg-slate-900 border-slate-700 text-slate-400 hover:text-slate-200'}`;
+
+  const promptName = (initial = '') => window.prompt('分组名称', initial)?.trim();
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <button onClick={() => onSelect(STARRED_LIST)} className={chip(activeList === STARRED_LIST)}>
+        <Star size={12} /> 已收藏 <span className="font-mono">{starredCount}</span>
+      </button>
+      {groups.map(g => (
+        <button key={g.id} onClick={() => onSelect(g.id)} className={chip(activeList === g.id)}>
+          <FolderOpen size={12} /> {g.name} <span className="font-mono">{g.channelIds.length}</span>
+        </button>
+      ))}
+      <button
+        onClick={() => {
+          const name = promptName();
+          if (name) onCreate(name);
+        }}
+        className="px-2 py-1.5 rounded-lg text-xs text-slate-500 hover:text-slate-200 flex items-center gap-1"
+      >
+        <Plus size={12} /> 新建分组
+      </button>
+
+      {activeGroup && (
+        <div className="flex items-center gap-1 ml-auto">
+          <button
+            onClick={() => {
+              const name = promptName(activeGroup.name);
+              if (name) onRename(activeGroup.id, name);
+            }}
+            className="p-1.5 text-slate-400 hover:text-white rounded"
+            title="重命名分组"
+          >
+            <Pencil size={14} />
+          </button>
+          <button
+            onClick={() => window.confirm(`删除分组「${activeGroup.name}」？`) && onDelete(activeGroup.id)}
+            className="p-1.5 text-slate-400 hover:text-red-400 rounded"
+            title="删除分组"
+          >
+            <Trash2 size={14} />
+          </button>
+        </div>
+      )}
+      <span className="w-full text-[11px] text-slate-600">拖动频道可调整顺序</span>
+    </div>
+  );
+};
+
+export default FavouritesBar;
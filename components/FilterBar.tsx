@@ -0,0 +1,165 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Search, SlidersHorizontal, X, Bookmark, Trash2 } from 'lucide-react';
+import { FilterPreset } from '../types';
+import { toggleTerm } from '../utils/filter';
+
+interface FilterBarProps {
+  query: string;
+  errors: string[];
+  presets: FilterPreset[];
+  onChange: (query: string) => void;
+  onSavePreset: (name: string) => void;
+  onDeletePreset: (name: string) => void;
+}
+
+const QUICK_FILTERS: { label: string, term: string }[] = [
+  { label: '在线', term: 'status:online' },
+  { label: '离线', term: 'status:offline' },
+  { label: 'CORS', term: 'status:cors' },
+  { label: '未检测', term: 'status:untested' },
+  { label: '≥720P', term: 'res:>=720' },
+  { label: '≥1080P', term: 'res:>=1080' },
+  { label: '<300ms', term: 'latency:<300' },
+  { label: '<1000ms', term: 'latency:<1000' },
+  { label: '多源', term: 'sources:>=3' },
+  { label: 'HTTPS', term: 'proto:https' },
+  { label: 'RTMP', term: 'proto:rtmp' },
+  { label: 'P2P', term: 'proto:p2p' },
+  { label: 'IPv6', term: 'proto:ipv6' },
+  { label: '局域网', term: 'net:lan,multicast' },
+  { label: '排除 P2P', term: '-proto:p2p' }
+];
+
+const SYNTAX_HELP: [string, string][] = [
+  ['hnws', '名称、原始名称、拼音或首字母'],
+  ['status:online,degraded', 'online / degraded / offline / cors / untested'],
+  ['res:>=720', '分辨率 (高度)'],
+  ['latency:<500', '延迟 (ms)'],
+  ['group:卫视', '分组名包含'],
+  ['sources:>=3', '源数量'],
+  ['proto:https', 'http / https / rtmp / rtsp / rtp / udp / p2p / ipv6'],
+  ['origin:fanmingming', '来源订阅名包含'],
+  ['net:电信', 'ipv4 / ipv6 / lan / multicast / 电信 / 联通 / 移动'],
+  ['-proto:p2p', '前缀 - 表示排除']
+];
+
+/**
+ * Search box with the query language, quick filters and saved presets
+ */
+const FilterBar: React.FC<FilterBarProps> = ({ query, errors, presets, onChange, onSavePreset, onDeletePreset }) => {
+  const [open, setOpen] = useState(false);
+  const ref = useRef<HTMLDivElement>(null);
+  const tokens = query.split(/\s+/);
+
+  // Close on any click outside
+  useEffect(() => {
+    if (!open) return;
+    const close = (e: MouseEvent) => {
+      if (!ref.current?.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', close);
+    return () => document.removeEventListener('mousedown', close);
+  }, [open]);
+
+  const savePreset = () => {
+    const name = window.prompt('筛选名称', query.trim())?.trim();
+    if (name) onSavePreset(name);
+  };
+
+  return (
+    <div ref={ref} className="relative flex-1 md:w-80">
+      <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-500" size={16} />
+      <input
+        type="text"
+        placeholder="搜索频道，如 hnws status:online res:>=720"
+        value={query}
+        onChange={(e) => onChange(e.target.value)}
+        className={`w-full bg-slate-900 border rounded-lg pl-10 pr-16 py-2.5 text-sm focus:outline-none focus:ring-1 focus:ring-cyan-500
+          ${errors.length > 0 ? 'border-amber-600/70' : 'border-slate-700'}`}
+        title={errors.join('\n') || undefined}
+      />
+      <div className="absolute right-2 top-1/2 -translate-y-1/2 flex items-center gap-1">
+        {query && (
+          <button onClick={() => onChange('')} className="p-1 text-slate-500 hover:text-slate-200" title="清除">
+            <X size={14} />
+          </button>
+        )}
+        <button
+          onClick={() => setOpen(v => !v)}
+          className={`p-1 rounded ${open ? 'text-cyan-400' : 'text-slate-500 hover:text-slate-200'}`}
+          title="筛选条件"
+        >
+          <SlidersHorizontal size={14} />
+        </button>
+      </div>
+
+      {open && (
+        <div className="absolute right-0 top-full mt-1 w-[22rem] max-w-[calc(100vw-2rem)] bg-slate-900 border border-slate-700 rounded-lg shadow-xl z-50 p-3 space-y-3 text-sm">
+          {errors.length > 0 && (
+            <ul className="text-xs text-amber-400 space-y-0.5">
+              {errors.map(error => <li key={error}>{error}</li>)}
+            </ul>
+          )}
+
+          <div className="flex flex-wrap gap-1.5">
+            {QUICK_FILTERS.map(({ label, term }) => (
+              <button
+                key={term}
+                onClick={() => onChange(toggleTerm(query, term))}
+                className={`px-2 py-0.5 rounded text-xs border transition-colors
+                  ${tokens.includes(term) ? 'bg-cyan-950/60 border-cyan-500/60 text-cyan-300' : 'border-slate-700 text-slate-400 hover:text-slate-200'}`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+
+          <div className="space-y-1">
+            <div className="flex items-center justify-between text-xs text-slate-500">
+              <span>已保存的筛选</span>
+              <button
+                onClick={savePreset}
+                disabled={!query.trim()}
+                className="flex items-center gap-1 hover:text-slate-200 disabled:opacity-40"
+              >
+                <Bookmark size={12} /> 保存当前
+              </button>
+            </div>
+            <ul className="max-h-40 overflow-y-auto">
+              {presets.map(preset => (
+                <li key={preset.name} className="group flex items-center gap-2">
+                  <button
+                    onClick={() => onChange(preset.query)}
+                    className={`flex-1 min-w-0 text-left px-2 py-1 rounded hover:bg-slate-800 flex items-center gap-2
+                      ${preset.query === query.trim() ? 'text-cyan-300' : 'text-slate-300'}`}
+                  >
+                    <span className="shrink-0">{preset.name}</span>
+                    <span className="truncate font-mono text-xs text-slate-500">{preset.query}</span>
+                  </button>
+                  <button
+                    onClick={() => onDeletePreset(preset.name)}
+                    className="text-slate-600 hover:text-red-400 opacity-0 group-hover:opacity-100"
+                    title="删除"
+                  >
+                    <Trash2 size={12} />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-0.5 text-xs border-t border-slate-800 pt-2">
+            {SYNTAX_HELP.map(([example, description]) => (
+              <React.Fragment key={example}>
+                <dt className="font-mono text-slate-300">{example}</dt>
+                <dd className="text-slate-500">{description}</dd>
+              </React.Fragment>
+            ))}
+          </dl>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FilterBar;
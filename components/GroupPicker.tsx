@@ -0,0 +1,66 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { FolderPlus, Check } from 'lucide-react';
+import { ChannelList } from '../types';
+
+interface GroupPickerProps {
+  channelId: string;
+  groups: ChannelList[];
+  onToggle: (groupId: string, channelId: string) => void;
+  onCreate: (name: string) => string;
+}
+
+/**
+ * Adds a channel to, or removes it from, the custom groups
+ */
+const GroupPicker: React.FC<GroupPickerProps> = ({ channelId, groups, onToggle, onCreate }) => {
+  const [open, setOpen] = useState(false);
+  const ref = useRef<HTMLDivElement>(null);
+  const inGroups = groups.filter(g => g.channelIds.includes(channelId)).length;
+
+  // Close on any click outside
+  useEffect(() => {
+    if (!open) return;
+    const close = (e: MouseEvent) => {
+      if (!ref.current?.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', close);
+    return () => document.removeEventListener('mousedown', close);
+  }, [open]);
+
+  return (
+    <div ref={ref} className="relative" onClick={(e) => e.stopPropagation()}>
+      <button
+        onClick={() => setOpen(v => !v)}
+        className={`p-2 rounded-lg transition-colors hover:bg-slate-800 ${inGroups > 0 ? 'text-cyan-400' : 'text-slate-400 hover:text-slate-200'}`}
+        title="加入分组"
+      >
+        <FolderPlus size={18} />
+      </button>
+      {open && (
+        <div className="absolute right-0 top-full mt-1 w-44 bg-slate-900 border border-slate-700 rounded-lg shadow-xl z-30 py-1 text-sm">
+          {groups.map(g => (
+            <button
+              key={g.id}
+              onClick={() => onToggle(g.id, channelId)}
+              className="w-full px-3 py-1.5 text-left flex items-center gap-2 text-slate-300 hover:bg-slate-800"
+            >
+              <span className="w-3">{g.channelIds.includes(channelId) && <Check size={12} className="text-cyan-400" />}</span>
+              <span className="truncate">{g.name}</span>
+            </button>
+          ))}
+          <button
+            onClick={() => {
+              const name = window.prompt('分组名称')?.trim();
+              if (name) onToggle(onCreate(name), channelId);
+            }}
+            className="w-full px-3 py-1.5 text-left text-xs text-slate-500 hover:text-slate-200 hover:bg-slate-800"
+          >
+            + 新建分组
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GroupPicker;
@@ -0,0 +1,65 @@
+import React from 'react';
+import { Layers, X } from 'lucide-react';
+import { GroupStat } from '../utils/groups';
+
+interface GroupSidebarProps {
+  groups: GroupStat[];
+  selected: Set<string>;
+  groupView: boolean;
+  onToggle: (group: string) => void;
+  onClear: () => void;
+  onToggleGroupView: () => void;
+}
+
+const ratioClass = (ratio: number) =>
+  ratio >= 0.7 ? 'bg-green-500' : ratio >= 0.3 ? 'bg-yellow-500' : 'bg-red-500';
+
+/**
+ * Group list with channel counts and online ratio; click to filter (multi-select)
+ */
+const GroupSidebar: React.FC<GroupSidebarProps> = ({ groups, selected, groupView, onToggle, onClear, onToggleGroupView }) => (
+  <aside className="w-full md:w-56 shrink-0 md:sticky md:top-24 self-start bg-slate-900/40 border border-slate-800 rounded-xl p-2 text-sm">
+    <div className="flex items-center justify-between px-2 py-1 text-xs text-slate-500">
+      <span>分组 ({groups.length})</span>
+      <div className="flex items-center gap-1">
+        {selected.size > 0 && (
+          <button onClick={onClear} className="hover:text-slate-200 flex items-center gap-0.5" title="清除分组筛选">
+            <X size={12} /> {selected.size}
+          </button>
+        )}
+        <button
+          onClick={onToggleGroupView}
+          className={`p-1 rounded ${groupView ? 'text-cyan-400' : 'hover:text-slate-200'}`}
+          title={groupView ? '列表中不按分组显示' : '列表中按分组显示'}
+        >
+          <Layers size={14} />
+        </button>
+      </div>
+    </div>
+    <ul className="max-h-48 md:max-h-[calc(100vh-10rem)] overflow-y-auto space-y-0.5">
+      {groups.map(g => {
+        const ratio = g.count > 0 ? g.online / g.count : 0;
+        const isSelected = selected.has(g.name);
+        return (
+          <li key={g.name}>
+            <button
+              onClick={() => onToggle(g.name)}
+              className={`w-full px-2 py-1.5 rounded-lg text-left flex items-center gap-2 transition-colors
+                ${isSelected ? 'bg-cyan-950/60 text-cyan-300' : 'text-slate-400 hover:bg-slate-800/60 hover:text-slate-200'}`}
+            >
+              <span className="flex-1 truncate" title={g.name}>{g.name}</span>
+              {g.checked > 0 && (
+                <span className="w-8 h-1 rounded-full bg-slate-800 overflow-hidden" title={`${g.online}/${g.count} 在线`}>
+                  <span className={`block h-full ${ratioClass(ratio)}`} style={{ width: `${ratio * 100}%` }} />
+                </span>
+              )}
+              <span className="text-xs font-mono text-slate-500">{g.count}</span>
+            </button>
+          </li>
+        );
+      })}
+    </ul>
+  </aside>
+);
+
+export default GroupSidebar;
@@ -0,0 +1,86 @@
+import React from 'react';
+import { X, Radar, Play, RefreshCw } from 'lucide-react';
+import { MonitorSettings } from '../types';
+import { formatAgo } from './ReliabilityBadge';
+
+interface MonitorPanelProps {
+  settings: MonitorSettings;
+  running: boolean;
+  lastRunAt: number | null;
+  nextRunAt: number | null;
+  onChange: (changes: Partial<MonitorSettings>) => void;
+  onRunNow: () => void;
+  onClose: () => void;
+}
+
+const INTERVAL_OPTIONS = [5, 10, 15, 30, 60, 180];
+const CONCURRENCY_OPTIONS = [1, 2, 4, 8, 12];
+
+const MonitorPanel: React.FC<MonitorPanelProps> = ({ settings, running, lastRunAt, nextRunAt, onChange, onRunNow, onClose }) => {
+  const selectClass = 'bg-slate-950 border border-slate-700 rounded-lg px-2 py-1.5 text-sm';
+
+  return (
+    <div className="bg-slate-900 border border-slate-800 rounded-xl p-4 space-y-3 text-sm">
+      <div className="flex items-center justify-between">
+        <h3 className="font-medium text-slate-200 flex items-center gap-2">
+          <Radar size={16} className="text-cyan-400" /> 后台监控
+        </h3>
+        <button onClick={onClose} className="text-slate-400 hover:text-white transition-colors">
+          <X size={16} />
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-x-5 gap-y-3 text-slate-400">
+        <label className="flex items-center gap-1.5">
+          <input type="checkbox" checked={settings.enabled} onChange={(e) => onChange({ enabled: e.target.checked })} />
+          <span className="text-slate-200">启用定时检测</span>
+        </label>
+        <label className="flex items-center gap-2">
+          范围
+          <select className={selectClass} value={settings.scope} onChange={(e) => onChange({ scope: e.target.value as MonitorSettings['scope'] })}>
+            <option value="all">全部频道</option>
+            <option value="filtered">当前筛选</option>
+            <option value="favourites">收藏与分组</option>
+          </select>
+        </label>
+        <label className="flex items-center gap-2">
+          间隔
+          <select className={selectClass} value={settings.intervalMinutes} onChange={(e) => onChange({ intervalMinutes: parseInt(e.target.value, 10) })}>
+            {INTERVAL_OPTIONS.map(m => <option key={m} value={m}>{m < 60 ? `${m} 分钟` : `${m / 60} 小时`}</option>)}
+          </select>
+        </label>
+        <label className="flex items-center gap-2">
+          并发
+          <select className={selectClass} value={settings.concurrency} onChange={(e) => onChange({ concurrency: parseInt(e.target.value, 10) })}>
+            {CONCURRENCY_OPTIONS.map(n => <option key={n} value={n}>{n}</option>)}
+          </select>
+        </label>
+        <label className="flex items-center gap-1.5">
+          <input type="checkbox" checked={settings.pauseWhenHidden} onChange={(e) => onChange({ pauseWhenHidden: e.target.checked })} />
+          页面隐藏时暂停
+        </label>
+        <label className="flex items-center gap-1.5">
+          <input type="checkbox" checked={settings.browserNotifications} onChange={(e) => onChange({ browserNotifications: e.target.checked })} />
+          浏览器通知
+        </label>
+      </div>
+
+      <div className="flex items-center gap-3 text-xs text-slate-500">
+        <button
+          onClick={onRunNow}
+          disabled={running}
+          className="px-3 py-1.5 rounded-lg bg-slate-800 hover:bg-slate-700 text-slate-300 disabled:opacity-50 flex items-center gap-1"
+        >
+          {running ? <RefreshCw size={12} className="animate-spin" /> : <Play size={12} />}
+          {running ? '检测中...' : '立即运行'}
+        </button>
+        <span>上次运行: {formatAgo(lastRunAt)}</span>
+        {nextRunAt && !running && (
+          <span>下次: {new Date(nextRunAt).toLocaleTimeString('zh-CN', { hour12: false })}</span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MonitorPanel;
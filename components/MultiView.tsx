@@ -0,0 +1,126 @@
+import React, { useMemo, useState } from 'react';
+import { X, Square, Grid2x2, Grid3x3, Search } from 'lucide-react';
+import { Channel, MultiViewLayout, MultiViewState, Source } from '../types';
+import MultiViewTile, { CHANNEL_DRAG_TYPE } from './MultiViewTile';
+
+interface MultiViewProps {
+  state: MultiViewState;
+  channels: Channel[]; // Everything, to resolve tile assignments
+  pickerChannels: Channel[]; // The current list view, offered in the picker
+  onSetLayout: (layout: MultiViewLayout) => void;
+  onAssign: (index: number, channelId: string | null) => void;
+  onAdd: (channelId: string) => void;
+  onSwap: (from: number, to: number) => void;
+  onToggleAudio: (index: number) => void;
+  onSourceFailed: (channelId: string, source: Source) => void;
+  onSourcePlaying: (channelId: string, source: Source) => void;
+  onClose: () => void;
+}
+
+const LAYOUTS: { layout: MultiViewLayout, icon: React.ReactNode, columns: string }[] = [
+  { layout: 1, icon: <Square size={14} />, columns: 'grid-cols-1 grid-rows-1' },
+  { layout: 4, icon: <Grid2x2 size={14} />, columns: 'grid-cols-2 grid-rows-2' },
+  { layout: 9, icon: <Grid3x3 size={14} />, columns: 'grid-cols-3 grid-rows-3' }
+];
+
+const PICKER_LIMIT = 200;
+
+/**
+ * Full-screen monitoring wall with 1, 4 or 9 independent players
+ */
+const MultiView: React.FC<MultiViewProps> = ({
+  state, channels, pickerChannels, onSetLayout, onAssign, onAdd, onSwap, onToggleAudio, onSourceFailed, onSourcePlaying, onClose
+}) => {
+  const [selected, setSelected] = useState<number | null>(null);
+  const [search, setSearch] = useState('');
+
+  const byId = useMemo(() => new Map(channels.map(c => [c.id, c])), [channels]);
+  const picks = useMemo(() => {
+    const text = search.trim().toLowerCase();
+    return (text ? pickerChannels.filter(c => c.name.toLowerCase().includes(text)) : pickerChannels).slice(0, PICKER_LIMIT);
+  }, [pickerChannels, search]);
+
+  // A selected tile takes the picked channel, otherwise it goes to the next free one
+  const pick = (channelId: string) => {
+    if (selected !== null && selected < state.layout) onAssign(selected, channelId);
+    else onAdd(channelId);
+  };
+
+  const { columns } = LAYOUTS.find(l => l.layout === state.layout) || LAYOUTS[1];
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-950 flex flex-col">
+      <div className="flex items-center gap-3 px-4 py-2 border-b border-slate-800 text-sm">
+        <h2 className="font-medium text-slate-200">多画面</h2>
+        <div className="flex bg-slate-900 p-0.5 rounded-lg border border-slate-800">
+          {LAYOUTS.map(({ layout, icon }) => (
+            <button
+              key={layout}
+              onClick={() => onSetLayout(layout)}
+              className={`px-2 py-1 rounded-md transition-colors ${state.layout === layout ? 'bg-cyan-600 text-white' : 'text-slate-400 hover:text-slate-200'}`}
+              title={`${layout} 画面`}
+            >
+              {icon}
+            </button>
+          ))}
+        </div>
+        <span className="text-xs text-slate-500">点击画面选中后再点频道可替换，拖动画面可交换位置</span>
+        <button onClick={onClose} className="ml-auto text-slate-400 hover:text-white transition-colors" title="退出多画面">
+          <X size={18} />
+        </button>
+      </div>
+
+      <div className="flex-1 flex min-h-0">
+        <aside className="w-56 shrink-0 border-r border-slate-800 flex flex-col min-h-0">
+          <div className="relative p-2">
+            <Search className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-500" size={14} />
+            <input
+              type="text"
+              placeholder="筛选频道..."
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="w-full bg-slate-900 border border-slate-700 rounded-lg pl-7 pr-2 py-1.5 text-xs focus:outline-none focus:ring-1 focus:ring-cyan-500"
+            />
+          </div>
+          <ul className="flex-1 overflow-y-auto text-sm px-1 pb-2">
+            {picks.map(channel => (
+              <li key={channel.id}>
+                <button
+                  draggable
+                  onDragStart={(e) => e.dataTransfer.setData(CHANNEL_DRAG_TYPE, channel.id)}
+                  onClick={() => pick(channel.id)}
+                  className="w-full flex items-center gap-2 px-2 py-1 rounded text-left text-slate-300 hover:bg-slate-800"
+                >
+                  <span className={`w-1.5 h-1.5 rounded-full shrink-0 ${channel.bestSource?.status === 'online' ? 'bg-green-500' : 'bg-slate-600'}`} />
+                  <span className="truncate">{channel.name}</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </aside>
+
+        <div className={`flex-1 grid gap-1 p-1 min-h-0 ${columns}`}>
+          {state.tiles.slice(0, state.layout).map((channelId, index) => (
+            <MultiViewTile
+              key={index}
+              index={index}
+              channel={channelId ? byId.get(channelId) : undefined}
+              missing={!!channelId && !byId.has(channelId)}
+              audio={state.audio === index}
+              selected={selected === index}
+              onSelect={(i) => setSelected(selected === i ? null : i)}
+              onToggleAudio={onToggleAudio}
+              onClear={(i) => onAssign(i, null)}
+              onDropChannel={onAssign}
+              onSwap={onSwap}
+              onSourceFailed={onSourceFailed}
+              onSourcePlaying={onSourcePlaying}
+            />
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MultiView;
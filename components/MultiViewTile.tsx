@@ -0,0 +1,160 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X, RefreshCw, AlertTriangle, Volume2, VolumeX, Plus } from 'lucide-react';
+import { Channel, Source } from '../types';
+import { usePlayback } from '../hooks/usePlayback';
+
+// Drag payloads: a channel from the picker, or another tile being moved
+export const CHANNEL_DRAG_TYPE = 'application/x-iptv-channel';
+const TILE_DRAG_TYPE = 'application/x-iptv-tile';
+
+interface MultiViewTileProps {
+  index: number;
+  channel?: Channel;
+  missing: boolean; // Assigned channel is no longer in the playlists
+  audio: boolean;
+  selected: boolean;
+  onSelect: (index: number) => void;
+  onToggleAudio: (index: number) => void;
+  onClear: (index: number) => void;
+  onDropChannel: (index: number, channelId: string) => void;
+  onSwap: (from: number, to: number) => void;
+  onSourceFailed: (channelId: string, source: Source) => void;
+  onSourcePlaying: (channelId: string, source: Source) => void;
+}
+
+interface TilePlayerProps {
+  channel: Channel;
+  muted: boolean;
+  onFailure: (failed: boolean) => void;
+  onSourceFailed: (channelId: string, source: Source) => void;
+  onSourcePlaying: (channelId: string, source: Source) => void;
+}
+
+/**
+ * The video of one tile. Keyed by channel, so each assignment gets a fresh
+ * player engine that is destroyed with it.
+ */
+const TilePlayer: React.FC<TilePlayerProps> = ({ channel, muted, onFailure, onSourceFailed, onSourcePlaying }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const { position, queueLength, error, loading, retry } = usePlayback(videoRef, {
+    channelId: channel.id,
+    sources: channel.sources,
+    onSourceFailed: source => onSourceFailed(channel.id, source),
+    onSourcePlaying: source => onSourcePlaying(channel.id, source)
+  });
+
+  useEffect(() => {
+    onFailure(!!error);
+  }, [error]);
+
+  // `muted` as a prop only sets the initial state, keep the element in sync
+  useEffect(() => {
+    if (videoRef.current) videoRef.current.muted = muted;
+  }, [muted]);
+
+  return (
+    <>
+      <video ref={videoRef} className="w-full h-full object-contain" autoPlay playsInline muted={muted} />
+      {loading && !error && (
+        <div className="absolute inset-0 flex items-center justify-center bg-black/40">
+          <RefreshCw className="animate-spin text-white/70" size={20} />
+        </div>
+      )}
+      {error && (
+        <div className="absolute inset-0 flex flex-col items-center justify-center bg-slate-950/90 text-red-400 text-xs gap-2 p-2 text-center">
+          <AlertTriangle size={20} />
+          <span>{error}</span>
+          <button
+            onClick={(e) => { e.stopPropagation(); retry(); }}
+            className="px-2 py-0.5 rounded bg-slate-800 hover:bg-slate-700 text-slate-300"
+          >
+            重试
+          </button>
+        </div>
+      )}
+      {queueLength > 1 && position > 0 && !error && (
+        <span className="absolute bottom-1 right-1 px-1 rounded bg-amber-500/80 text-[10px] text-black font-mono" title="已切换到备用源">
+          源 {position + 1}/{queueLength}
+        </span>
+      )}
+    </>
+  );
+};
+
+/**
+ * One cell of the multi-view grid: accepts channels and other tiles by drag
+ * and drop, and shows a red frame while its channel can't be played
+ */
+const MultiViewTile: React.FC<MultiViewTileProps> = ({
+  index, channel, missing, audio, selected, onSelect, onToggleAudio, onClear, onDropChannel, onSwap, onSourceFailed, onSourcePlaying
+}) => {
+  const [failed, setFailed] = useState(false);
+  const [over, setOver] = useState(false);
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setOver(false);
+    const channelId = e.dataTransfer.getData(CHANNEL_DRAG_TYPE);
+    const from = e.dataTransfer.getData(TILE_DRAG_TYPE);
+    if (channelId) onDropChannel(index, channelId);
+    else if (from !== '' && Number(from) !== index) onSwap(Number(from), index);
+  };
+
+  const border = over ? 'border-cyan-400'
+    : channel && failed ? 'border-red-500'
+    : selected ? 'border-slate-400'
+    : 'border-slate-800';
+
+  return (
+    <div
+      onClick={() => onSelect(index)}
+      onDragOver={(e) => { e.preventDefault(); setOver(true); }}
+      onDragLeave={() => setOver(false)}
+      onDrop={handleDrop}
+      draggable={!!channel}
+      onDragStart={(e) => e.dataTransfer.setData(TILE_DRAG_TYPE, String(index))}
+      className={`group relative bg-black border-2 rounded overflow-hidden min-h-0 ${border}`}
+    >
+      {channel ? (
+        <TilePlayer
+          key={channel.id}
+          channel={channel}
+          muted={!audio}
+          onFailure={setFailed}
+          onSourceFailed={onSourceFailed}
+          onSourcePlaying={onSourcePlaying}
+        />
+      ) : (
+        <div className="absolute inset-0 flex flex-col items-center justify-center text-slate-600 text-xs gap-1">
+          <Plus size={20} />
+          {missing ? '频道已不在列表中' : '拖入或点击左侧频道'}
+        </div>
+      )}
+
+      {channel && (
+        <div className="absolute top-0 inset-x-0 flex items-center gap-1 px-2 py-1 bg-gradient-to-b from-black/80 to-transparent text-xs text-slate-200">
+          {failed && <AlertTriangle size={12} className="text-red-400 shrink-0" />}
+          <span className="truncate">{channel.name}</span>
+          <div className="ml-auto flex items-center gap-1">
+            <button
+              onClick={(e) => { e.stopPropagation(); onToggleAudio(index); }}
+              className={`p-0.5 rounded ${audio ? 'text-cyan-400' : 'text-slate-400 hover:text-white'}`}
+              title={audio ? '静音' : '播放此画面的声音'}
+            >
+              {audio ? <Volume2 size={14} /> : <VolumeX size={14} />}
+            </button>
+            <button
+              onClick={(e) => { e.stopPropagation(); onClear(index); }}
+              className="p-0.5 rounded text-slate-400 hover:text-white opacity-0 group-hover:opacity-100"
+              title="移除"
+            >
+              <X size={14} />
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MultiViewTile;
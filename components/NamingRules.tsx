@@ -0,0 +1,184 @@
+import React, { useMemo, useState } from 'react';
+import { X, Plus, Trash2, Combine, RotateCcw } from 'lucide-react';
+import { NameRule, NamingConfig } from '../types';
+import { NAMING_DEFAULTS } from '../constants';
+import { BUILTIN_RULES, createNormalizer, validateRule } from '../utils/naming';
+
+interface NamingRulesProps {
+  config: NamingConfig;
+  onSetAlias: (rawName: string, target: string) => void;
+  onRemoveAlias: (key: string) => void;
+  onRemoveSplit: (key: string) => void;
+  onSetRules: (rules: NameRule[]) => void;
+  onSetStripWords: (words: string[]) => void;
+  onSetStripParams: (params: string[]) => void;
+  onClose: () => void;
+}
+
+const inputClass = 'bg-slate-950 border border-slate-700 rounded-lg px-2 py-1.5 text-sm focus:outline-none focus:ring-1 focus:ring-cyan-500';
+
+const NamingRules: React.FC<NamingRulesProps> = ({
+  config, onSetAlias, onRemoveAlias, onRemoveSplit, onSetRules, onSetStripWords, onSetStripParams, onClose
+}) => {
+  const [aliasRaw, setAliasRaw] = useState('');
+  const [aliasTarget, setAliasTarget] = useState('');
+  const [pattern, setPattern] = useState('');
+  const [replacement, setReplacement] = useState('');
+  const [ruleError, setRuleError] = useState<string | null>(null);
+  const [words, setWords] = useState(config.stripWords.join(', '));
+  const [params, setParams] = useState(config.stripParams.join(', '));
+  const [sample, setSample] = useState('');
+
+  const normalize = useMemo(() => createNormalizer(config), [config]);
+
+  const addAlias = () => {
+    if (!aliasRaw.trim() || !aliasTarget.trim()) return;
+    onSetAlias(aliasRaw, aliasTarget);
+    setAliasRaw('');
+    setAliasTarget('');
+  };
+
+  const addRule = () => {
+    if (!pattern) return;
+    const error = validateRule(pattern);
+    if (error) return setRuleError(error);
+    onSetRules([...config.rules, { id: Date.now().toString(36), pattern, replacement, enabled: true }]);
+    setPattern('');
+    setReplacement('');
+    setRuleError(null);
+  };
+
+  const updateRule = (id: string, changes: Partial<NameRule>) =>
+    onSetRules(config.rules.map(r => r.id === id ? { ...r, ...changes } : r));
+
+  const saveWords = (value: string) => {
+    const list = value.split(/[,，\n]/).map(w => w.trim()).filter(Boolean);
+    if (list.join(',') !== config.stripWords.join(',')) onSetStripWords(list);
+  };
+
+  const saveParams = (value: string) => {
+    const list = value.split(/[,，\s]/).map(p => p.trim()).filter(Boolean);
+    if (list.join(',') !== config.stripParams.join(',')) onSetStripParams(list);
+  };
+
+  return (
+    <div className="bg-slate-900 border border-slate-800 rounded-xl p-4 space-y-4 text-sm">
+      <div className="flex items-center justify-between">
+        <h3 className="font-medium text-slate-200 flex items-center gap-2">
+          <Combine size={16} className="text-cyan-400" /> 频道名称规则
+        </h3>
+        <button onClick={onClose} className="text-slate-400 hover:text-white transition-colors">
+          <X size={16} />
+        </button>
+      </div>
+
+      {/* Preview */}
+      <div className="flex items-center gap-2">
+        <input className={`${inputClass} flex-1`} placeholder="输入频道名预览合并结果，如 CCTV-5+体育赛事" value={sample} onChange={(e) => setSample(e.target.value)} />
+        <span className="font-mono text-cyan-300 min-w-[8rem]">{sample ? normalize(sample) || '(忽略)' : ''}</span>
+      </div>
+
+      {/* Aliases */}
+      <section className="space-y-2">
+        <h4 className="text-xs text-slate-500">别名 (原始名称 → 频道)</h4>
+        <ul className="text-xs space-y-1 max-h-40 overflow-y-auto">
+          {Object.entries(config.aliases).map(([raw, target]) => (
+            <li key={raw} className="flex items-center gap-2">
+              <span className="font-mono text-slate-400">{raw}</span>
+              <span className="text-slate-600">→</span>
+              <span className="text-slate-200">{target}</span>
+              <button onClick={() => onRemoveAlias(raw)} className="ml-auto text-slate-500 hover:text-red-400"><Trash2 size={12} /></button>
+            </li>
+          ))}
+          {config.splits.map(raw => (
+            <li key={`split-${raw}`} className="flex items-center gap-2">
+              <span className="font-mono text-slate-400">{raw}</span>
+              <span className="text-amber-500/80">独立频道</span>
+              <button onClick={() => onRemoveSplit(raw)} className="ml-auto text-slate-500 hover:text-red-400"><Trash2 size={12} /></button>
+            </li>
+          ))}
+        </ul>
+        <div className="flex gap-2">
+          <input className={`${inputClass} flex-1`} placeholder="原始名称" value={aliasRaw} onChange={(e) => setAliasRaw(e.target.value)} />
+          <input className={`${inputClass} flex-1`} placeholder="频道" value={aliasTarget} onChange={(e) => setAliasTarget(e.target.value)} onKeyDown={(e) => e.key === 'Enter' && addAlias()} />
+          <button onClick={addAlias} className="px-2 rounded-lg bg-slate-800 hover:bg-slate-700 text-slate-300"><Plus size={14} /></button>
+        </div>
+      </section>
+
+      {/* Regex rules */}
+      <section className="space-y-2">
+        <h4 className="text-xs text-slate-500">正则规则 (作用于大写后的名称，按顺序执行)</h4>
+        <ul className="text-xs space-y-1 font-mono">
+          {BUILTIN_RULES.map(rule => (
+            <li key={rule.pattern} className="flex items-center gap-2 text-slate-600" title="内置规则">
+              <span className="truncate">{rule.pattern}</span>
+              <span>→</span>
+              <span>{rule.replacement || '""'}</span>
+            </li>
+          ))}
+          {config.rules.map(rule => (
+            <li key={rule.id} className={`flex items-center gap-2 ${rule.enabled ? 'text-slate-300' : 'text-slate-600'}`}>
+              <input type="checkbox" checked={rule.enabled} onChange={(e) => updateRule(rule.id, { enabled: e.target.checked })} />
+              <span className="truncate">{rule.pattern}</span>
+              <span className="text-slate-600">→</span>
+              <span>{rule.replacement || '""'}</span>
+              <button onClick={() => onSetRules(config.rules.filter(r => r.id !== rule.id))} className="ml-auto text-slate-500 hover:text-red-400"><Trash2 size={12} /></button>
+            </li>
+          ))}
+        </ul>
+        <div className="flex gap-2">
+          <input className={`${inputClass} flex-1 font-mono`} placeholder="正则，如 ^BBC ONE .*" value={pattern} onChange={(e) => setPattern(e.target.value)} />
+          <input className={`${inputClass} w-32 font-mono`} placeholder="替换为" value={replacement} onChange={(e) => setReplacement(e.target.value)} onKeyDown={(e) => e.key === 'Enter' && addRule()} />
+          <button onClick={addRule} className="px-2 rounded-lg bg-slate-800 hover:bg-slate-700 text-slate-300"><Plus size={14} /></button>
+        </div>
+        {ruleError && <div className="text-xs text-red-400">{ruleError}</div>}
+      </section>
+
+      {/* Strip words */}
+      <section className="space-y-2">
+        <div className="flex items-center justify-between">
+          <h4 className="text-xs text-slate-500">忽略词 (英文按整词匹配，如 CHD 中的 HD 不会被去掉)</h4>
+          <button
+            onClick={() => {
+              setWords(NAMING_DEFAULTS.stripWords.join(', '));
+              onSetStripWords(NAMING_DEFAULTS.stripWords);
+            }}
+            className="text-xs text-slate-500 hover:text-slate-300 flex items-center gap-1"
+          >
+            <RotateCcw size={12} /> 恢复默认
+          </button>
+        </div>
+        <textarea
+          className={`${inputClass} w-full h-16 font-mono text-xs`}
+          value={words}
+          onChange={(e) => setWords(e.target.value)}
+          onBlur={() => saveWords(words)}
+        />
+      </section>
+
+      {/* URL merging */}
+      <section className="space-y-2">
+        <div className="flex items-center justify-between">
+          <h4 className="text-xs text-slate-500">比较信号源地址时忽略的参数 (令牌、时间戳等，去掉后相同的地址合并为一个源)</h4>
+          <button
+            onClick={() => {
+              setParams(NAMING_DEFAULTS.stripParams.join(', '));
+              onSetStripParams(NAMING_DEFAULTS.stripParams);
+            }}
+            className="text-xs text-slate-500 hover:text-slate-300 flex items-center gap-1"
+          >
+            <RotateCcw size={12} /> 恢复默认
+          </button>
+        </div>
+        <textarea
+          className={`${inputClass} w-full h-12 font-mono text-xs`}
+          value={params}
+          onChange={(e) => setParams(e.target.value)}
+          onBlur={() => saveParams(params)}
+        />
+      </section>
+    </div>
+  );
+};
+
+export default NamingRules;
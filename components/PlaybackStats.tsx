@@ -0,0 +1,37 @@
+import React from 'react';
+import { PlaybackMetrics } from '../types';
+import { formatBitrate } from '../utils/playback';
+
+interface PlaybackStatsProps {
+  metrics: PlaybackMetrics;
+}
+
+/**
+ * "Stats for nerds" overlay over the video
+ */
+const PlaybackStats: React.FC<PlaybackStatsProps> = ({ metrics: m }) => {
+  const rows: [string, string][] = [
+    ['首帧', m.ttff === null ? '-' : `${m.ttff} ms`],
+    ['分辨率', m.height > 0 ? `${m.width}x${m.height}` : '-'],
+    ['帧率', m.fps === null ? '-' : `${m.fps} fps`],
+    ['码率', formatBitrate(m.bitrate)],
+    ['清晰度', m.level === null ? '-' : `${m.level + 1}/${m.levels}`],
+    ['缓冲', `${m.bufferLength.toFixed(1)} s`],
+    ['丢帧', `${m.droppedFrames}/${m.totalFrames}`],
+    ['卡顿', `${m.stalls} 次 / ${(m.stallMs / 1000).toFixed(1)} s`],
+    ['下载速度', formatBitrate(m.throughput)]
+  ];
+
+  return (
+    <dl className="absolute top-2 left-2 z-20 grid grid-cols-[auto_auto] gap-x-3 px-2 py-1.5 rounded bg-black/70 text-[10px] font-mono text-slate-300 pointer-events-none">
+      {rows.map(([label, value]) => (
+        <React.Fragment key={label}>
+          <dt className="text-slate-500">{label}</dt>
+          <dd>{value}</dd>
+        </React.Fragment>
+      ))}
+    </dl>
+  );
+};
+
+export default PlaybackStats;
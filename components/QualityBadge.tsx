@@ -0,0 +1,39 @@
+import React from 'react';
+import { PlaybackQuality } from '../types';
+import { formatBitrate } from '../utils/playback';
+import { formatAgo } from './ReliabilityBadge';
+
+interface QualityBadgeProps {
+  quality?: PlaybackQuality;
+}
+
+/**
+ * Summary of the last deep test: start time, frame rate and rebuffering
+ */
+const QualityBadge: React.FC<QualityBadgeProps> = ({ quality: q }) => {
+  if (!q) return <span className="text-slate-600">-</span>;
+
+  const stallShare = q.duration > 0 ? q.stallMs / (q.duration * 1000) : 0;
+  const color = stallShare > 0.2 || (q.ttff ?? Infinity) > 5000
+    ? 'text-red-400'
+    : q.stalls > 0 || (q.ttff ?? Infinity) > 2000 ? 'text-yellow-400' : 'text-green-400';
+  const title = [
+    `首帧 ${q.ttff ?? '-'}ms`,
+    q.height > 0 ? `${q.width}x${q.height}${q.fps !== null ? ` @ ${q.fps}fps` : ''}` : null,
+    `码率 ${formatBitrate(q.bitrate)} / 下载 ${formatBitrate(q.throughput)}`,
+    `卡顿 ${q.stalls} 次 (${(q.stallMs / 1000).toFixed(1)}s / ${q.duration}s)`,
+    `丢帧 ${q.droppedFrames}/${q.totalFrames}`,
+    `测试于 ${formatAgo(q.testedAt)}`
+  ].filter(Boolean).join('\n');
+
+  return (
+    <span className="inline-flex flex-col items-center leading-tight cursor-help" title={title}>
+      <span className={color}>{q.ttff ?? '-'}ms</span>
+      <span className="text-[10px] text-slate-500 font-mono">
+        {q.fps !== null ? `${q.fps}fps` : '-'}{q.stalls > 0 ? ` · 卡${q.stalls}` : ''}
+      </span>
+    </span>
+  );
+};
+
+export default QualityBadge;
@@ -0,0 +1,47 @@
+import React from 'react';
+import { SourceReliability } from '../types';
+import { RELIABILITY_MIN_SAMPLES } from '../constants';
+
+interface ReliabilityBadgeProps {
+  reliability?: SourceReliability;
+}
+
+export const formatAgo = (ms: number | null | undefined) => {
+  if (!ms) return '从未';
+  const minutes = Math.round((Date.now() - ms) / 60000);
+  if (minutes < 1) return '刚刚';
+  if (minutes < 60) return `${minutes} 分钟前`;
+  const hours = Math.round(minutes / 60);
+  if (hours < 48) return `${hours} 小时前`;
+  return `${Math.round(hours / 24)} 天前`;
+};
+
+/**
+ * Uptime and latency percentiles from the stored check history
+ */
+const ReliabilityBadge: React.FC<ReliabilityBadgeProps> = ({ reliability: r }) => {
+  if (!r || r.samples === 0 || r.uptime === null) {
+    return <span className="text-slate-600">-</span>;
+  }
+
+  const uptime = Math.round(r.uptime * 100);
+  const color = r.samples < RELIABILITY_MIN_SAMPLES
+    ? 'text-slate-400'
+    : uptime >= 90 ? 'text-green-400' : uptime >= 50 ? 'text-yellow-400' : 'text-red-400';
+  const title = [
+    `${r.samples} 次有效检测`,
+    r.p50 !== null ? `延迟 P50 ${r.p50}ms / P95 ${r.p95}ms` : null,
+    `最后在线: ${formatAgo(r.lastOnline)}`
+  ].filter(Boolean).join('\n');
+
+  return (
+    <span className="inline-flex flex-col items-center leading-tight cursor-help" title={title}>
+      <span className={color}>{uptime}%</span>
+      {r.p50 !== null && (
+        <span className="text-[10px] text-slate-500 font-mono">{r.p50}/{r.p95}ms</span>
+      )}
+    </span>
+  );
+};
+
+export default ReliabilityBadge;
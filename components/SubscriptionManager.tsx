@@ -0,0 +1,298 @@
+import React, { useState } from 'react';
+import { X, Plus, Pencil, Trash2, RefreshCw, Link, FileText, Upload, ListVideo, AlertCircle, CheckCircle2, ArrowDownWideNarrow, Filter } from 'lucide-react';
+import { Subscription } from '../types';
+import { SubscriptionDraft } from '../hooks/useSubscriptions';
+import { OriginStat } from '../utils/groups';
+
+interface SubscriptionManagerProps {
+  subscriptions: Subscription[];
+  refreshing: Set<string>;
+  health: Map<string, OriginStat>; // Keyed by subscription id (see summarizeOrigins)
+  onFilterOrigin: (name: string) => void;
+  onAdd: (draft: SubscriptionDraft, content?: string) => Promise<void>;
+  onUpdate: (id: string, changes: Partial<SubscriptionDraft>, content?: string) => Promise<void>;
+  onRemove: (id: string) => void;
+  onRefresh: (id: string) => void;
+  onClose: () => void;
+}
+
+const REFRESH_OPTIONS = [
+  { value: 0, label: '不自动刷新' },
+  { value: 30, label: '每 30 分钟' },
+  { value: 60, label: '每小时' },
+  { value: 180, label: '每 3 小时' },
+  { value: 720, label: '每 12 小时' },
+  { value: 1440, label: '每天' }
+];
+
+const emptyDraft = (): SubscriptionDraft => ({
+  name: '',
+  kind: 'url',
+  url: '',
+  category: 'China',
+  enabled: true,
+  refreshMinutes: 0
+});
+
+const formatFetchTime = (ms?: number) =>
+  ms ? new Date(ms).toLocaleString('zh-CN', { hour12: false }) : '从未';
+
+// Share of conclusively checked sources that are online; null until something was checked
+const uptimeOf = (stat?: OriginStat) => stat && stat.conclusive > 0 ? stat.online / stat.conclusive : null;
+
+const uptimeTone = (uptime: number) =>
+  uptime >= 0.5 ? 'text-green-400' : uptime >= 0.2 ? 'text-yellow-400' : 'text-red-400';
+
+interface SubscriptionFormProps {
+  initial: SubscriptionDraft;
+  categories: string[];
+  isNew: boolean;
+  onSubmit: (draft: SubscriptionDraft, content?: string) => Promise<void>;
+  onCancel: () => void;
+}
+
+const SubscriptionForm: React.FC<SubscriptionFormProps> = ({ initial, categories, isNew, onSubmit, onCancel }) => {
+  const [draft, setDraft] = useState<SubscriptionDraft>(initial);
+  const [content, setContent] = useState<string | undefined>(undefined);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const set = <K extends keyof SubscriptionDraft>(key: K, value: SubscriptionDraft[K]) =>
+    setDraft(prev => ({ ...prev, [key]: value }));
+
+  const handleFile = async (file: File) => {
+    setContent(await file.text());
+    setDraft(prev => ({ ...prev, fileName: file.name, name: prev.name || file.name.replace(/\.(m3u8?|txt)$/i, '') }));
+  };
+
+  const handleSubmit = async () => {
+    if (!draft.name.trim()) return setError('请填写名称');
+    if (!draft.category.trim()) return setError('请填写分类');
+    if (draft.kind === 'url' && !/^https?:\/\//i.test(draft.url || '')) return setError('请输入 http(s) 地址');
+    if (draft.kind !== 'url' && isNew && !content) return setError(draft.kind === 'file' ? '请选择文件' : '请粘贴播放列表内容');
+
+    setSaving(true);
+    setError(null);
+    try {
+      await onSubmit({ ...draft, name: draft.name.trim(), category: draft.category.trim() }, content);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+      setSaving(false);
+    }
+  };
+
+  const inputClass = 'w-full bg-slate-950 border border-slate-700 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-1 focus:ring-cyan-500';
+
+  return (
+    <div className="bg-slate-950/50 border border-slate-800 rounded-lg p-3 space-y-3">
+      {isNew && (
+        <div className="flex bg-slate-900 p-1 rounded-lg border border-slate-800 w-fit text-xs">
+          {([['url', '地址', Link], ['text', '粘贴文本', FileText], ['file', '本地文件', Upload]] as const).map(([kind, label, Icon]) => (
+            <button
+              key={kind}
+              onClick={() => set('kind', kind)}
+              className={`px-3 py-1.5 rounded-md flex items-center gap-1 transition-all ${draft.kind === kind ? 'bg-cyan-600 text-white' : 'text-slate-400 hover:text-slate-200'}`}
+            >
+              <Icon size={12} /> {label}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+        <input className={inputClass} placeholder="名称" value={draft.name} onChange={(e) => set('name', e.target.value)} />
+        <input className={inputClass} placeholder="分类 / 标签" list="subscription-categories" value={draft.category} onChange={(e) => set('category', e.target.value)} />
+        <datalist id="subscription-categories">
+          {categories.map(c => <option key={c} value={c} />)}
+        </datalist>
+      </div>
+
+      {draft.kind === 'url' && (
+        <input className={`${inputClass} font-mono`} placeholder="https://example.com/playlist.m3u" value={draft.url || ''} onChange={(e) => set('url', e.target.value)} />
+      )}
+      {draft.kind === 'text' && (
+        <textarea
+          className={`${inputClass} font-mono h-32`}
+          placeholder={isNew ? '#EXTM3U ... 或 频道名,http://...' : '留空则保留原内容'}
+          value={content ?? ''}
+          onChange={(e) => setContent(e.target.value)}
+        />
+      )}
+      {draft.kind === 'file' && (
+        <label className="flex items-center gap-2 text-sm text-slate-400 cursor-pointer">
+          <span className="px-3 py-2 rounded-lg bg-slate-800 hover:bg-slate-700 text-slate-300 flex items-center gap-1">
+            <Upload size={14} /> 选择 .m3u / .txt
+          </span>
+          <span className="truncate font-mono text-xs">{draft.fileName || '未选择'}</span>
+          <input type="file" accept=".m3u,.m3u8,.txt" className="hidden" onChange={(e) => e.target.files?.[0] && handleFile(e.target.files[0])} />
+        </label>
+      )}
+
+      <div className="flex flex-wrap items-center gap-3 text-sm">
+        {draft.kind === 'url' && (
+          <select className="bg-slate-950 border border-slate-700 rounded-lg px-2 py-1.5 text-sm" value={draft.refreshMinutes} onChange={(e) => set('refreshMinutes', parseInt(e.target.value, 10))}>
+            {REFRESH_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+          </select>
+        )}
+        <label className="flex items-center gap-1.5 text-slate-400">
+          <input type="checkbox" checked={draft.enabled} onChange={(e) => set('enabled', e.target.checked)} /> 启用
+        </label>
+        {error && <span className="text-red-400 text-xs">{error}</span>}
+        <div className="flex gap-2 ml-auto">
+          <button onClick={onCancel} className="px-3 py-1.5 rounded-lg text-slate-400 hover:text-white">取消</button>
+          <button onClick={handleSubmit} disabled={saving} className="px-4 py-1.5 rounded-lg bg-indigo-600 hover:bg-indigo-500 text-white disabled:opacity-50">
+            {saving ? '保存中...' : '保存'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Subscription list with each playlist's source health, optionally ranked
+ * by it so the rotting ones are easy to spot and drop
+ */
+const SubscriptionManager: React.FC<SubscriptionManagerProps> = ({
+  subscriptions, refreshing, health, onFilterOrigin, onAdd, onUpdate, onRemove, onRefresh, onClose
+}) => {
+  const [editing, setEditing] = useState<string | 'new' | null>(null);
+  const [byQuality, setByQuality] = useState(false);
+  const categories = Array.from(new Set(['China', 'International', ...subscriptions.map(s => s.category)]));
+
+  // Best first; unchecked (and disabled) subscriptions go last
+  const ordered = byQuality
+    ? [...subscriptions].sort((a, b) => (uptimeOf(health.get(b.id)) ?? -1) - (uptimeOf(health.get(a.id)) ?? -1))
+    : subscriptions;
+
+  return (
+    <div className="bg-slate-900 border border-slate-800 rounded-xl p-4 space-y-3 text-sm">
+      <div className="flex items-center justify-between">
+        <h3 className="font-medium text-slate-200 flex items-center gap-2">
+          <ListVideo size={16} className="text-cyan-400" /> 订阅管理
+        </h3>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setByQuality(v => !v)}
+            className={`px-2 py-1.5 rounded-lg text-xs flex items-center gap-1 transition-colors ${byQuality ? 'bg-cyan-950/60 text-cyan-300' : 'text-slate-400 hover:text-slate-200'}`}
+            title="按在线率排序"
+          >
+            <ArrowDownWideNarrow size={14} /> 按质量
+          </button>
+          <button
+            onClick={() => setEditing('new')}
+            className="px-3 py-1.5 rounded-lg bg-cyan-600 hover:bg-cyan-500 text-white text-xs flex items-center gap-1"
+          >
+            <Plus size={14} /> 添加
+          </button>
+          <button onClick={onClose} className="text-slate-400 hover:text-white transition-colors">
+            <X size={16} />
+          </button>
+        </div>
+      </div>
+
+      {editing === 'new' && (
+        <SubscriptionForm
+          initial={emptyDraft()}
+          categories={categories}
+          isNew
+          onSubmit={async (draft, content) => {
+            await onAdd(draft, content);
+            setEditing(null);
+          }}
+          onCancel={() => setEditing(null)}
+        />
+      )}
+
+      <ul className="divide-y divide-slate-800/60">
+        {ordered.map(sub => {
+          const isRefreshing = refreshing.has(sub.id);
+          const stat = health.get(sub.id);
+          const uptime = uptimeOf(stat);
+          if (editing === sub.id) {
+            const { id, lastFetchedAt, lastStatus, lastError, ...draft } = sub;
+            return (
+              <li key={sub.id} className="py-2">
+                <SubscriptionForm
+                  initial={draft}
+                  categories={categories}
+                  isNew={false}
+                  onSubmit={async (draft, content) => {
+                    await onUpdate(sub.id, draft, content);
+                    setEditing(null);
+                  }}
+                  onCancel={() => setEditing(null)}
+                />
+              </li>
+            );
+          }
+          return (
+            <li key={sub.id} className={`py-2 flex items-center gap-3 ${sub.enabled ? '' : 'opacity-50'}`}>
+              <input
+                type="checkbox"
+                checked={sub.enabled}
+                onChange={(e) => onUpdate(sub.id, { enabled: e.target.checked })}
+                title={sub.enabled ? '停用' : '启用'}
+              />
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="text-slate-200 truncate">{sub.name}</span>
+                  <span className="text-[10px] px-1.5 py-0.5 rounded bg-slate-800 text-slate-400 border border-slate-700">{sub.category}</span>
+                  {sub.kind === 'url' && sub.refreshMinutes > 0 && (
+                    <span className="text-[10px] text-slate-500">{REFRESH_OPTIONS.find(o => o.value === sub.refreshMinutes)?.label || `每 ${sub.refreshMinutes} 分钟`}</span>
+                  )}
+                </div>
+                <div className="text-xs text-slate-500 truncate font-mono" title={sub.url || sub.fileName}>
+                  {sub.kind === 'url' ? sub.url : sub.kind === 'file' ? sub.fileName : '粘贴的文本'}
+                </div>
+                <div className="text-xs flex items-center gap-1 mt-0.5">
+                  {sub.lastStatus === 'error' ? (
+                    <span className="text-red-400 flex items-center gap-1 truncate" title={sub.lastError}>
+                      <AlertCircle size={12} /> 加载失败: {sub.lastError}
+                    </span>
+                  ) : sub.lastStatus === 'ok' ? (
+                    <span className="text-green-500/80 flex items-center gap-1">
+                      <CheckCircle2 size={12} /> 已更新
+                    </span>
+                  ) : null}
+                  <span className="text-slate-600">· {formatFetchTime(sub.lastFetchedAt)}</span>
+                  {stat && (
+                    <span className="text-slate-500" title={`${stat.online} / ${stat.conclusive} 个已检测源在线 (不含 CORS)`}>
+                      · {stat.sources} 个源
+                      {uptime !== null
+                        ? <span className={`ml-1 font-mono ${uptimeTone(uptime)}`}>{Math.round(uptime * 100)}% 在线</span>
+                        : <span className="ml-1">未检测</span>}
+                    </span>
+                  )}
+                </div>
+              </div>
+              <div className="flex items-center gap-1">
+                <button onClick={() => onFilterOrigin(sub.name)} disabled={!stat} className="p-1.5 text-slate-400 hover:text-cyan-400 rounded disabled:opacity-40" title="只看此订阅的频道">
+                  <Filter size={14} />
+                </button>
+                <button onClick={() => onRefresh(sub.id)} disabled={!sub.enabled || isRefreshing} className="p-1.5 text-slate-400 hover:text-cyan-400 rounded disabled:opacity-40" title="刷新">
+                  <RefreshCw size={14} className={isRefreshing ? 'animate-spin' : ''} />
+                </button>
+                <button onClick={() => setEditing(sub.id)} className="p-1.5 text-slate-400 hover:text-white rounded" title="编辑">
+                  <Pencil size={14} />
+                </button>
+                <button
+                  onClick={() => window.confirm(`删除订阅「${sub.name}」？`) && onRemove(sub.id)}
+                  className="p-1.5 text-slate-400 hover:text-red-400 rounded"
+                  title="删除"
+                >
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            </li>
+          );
+        })}
+        {subscriptions.length === 0 && (
+          <li className="py-6 text-center text-slate-500">暂无订阅</li>
+        )}
+      </ul>
+    </div>
+  );
+};
+
+export default SubscriptionManager;
@@ -1,132 +1,344 @@
 import React, { useEffect, useRef, useState } from 'react';
-import Hls from 'hls.js';
-import { X, RefreshCw, AlertTriangle } from 'lucide-react';
+import {
+  X, RefreshCw, AlertTriangle, SkipForward, Pin, PinOff, Gauge,
+  Maximize2, Minimize2, Maximize, PictureInPicture2, ChevronUp, ChevronDown, Undo2, History, Radio
+} from 'lucide-react';
+import { PlaybackMetrics, Source, Timeshift } from '../types';
+import { loadSetting, saveSetting } from '../utils/storage';
+import { formatTime } from '../utils/epg';
+import { TIMESHIFT_STEPS_MINUTES } from '../constants';
+import { usePlayback } from '../hooks/usePlayback';
+import { PlayerMode } from '../hooks/usePlayerSession';
+import PlaybackStats from './PlaybackStats';
 
 interface VideoPlayerProps {
-  url: string;
+  channelId: string;
   name: string;
-  resolution?: string;
-  latency?: number | null;
+  number: string; // Shown in the channel banner, see channelNumber()
+  group: string;
+  sources: Source[]; // The channel's ranked sources (live, so statuses stay current)
+  startSourceId?: string;
+  mode: PlayerMode;
+  timeshift?: Timeshift;
+  canTimeshift: boolean; // Some source has catch-up, so live can be seeked back
+  guide?: React.ReactNode; // Programme guide shown under the mini player
+  nowNext?: React.ReactNode; // Current programme, for the channel banner
+  onModeChange: (mode: PlayerMode) => void;
+  onZap: (step: number) => void;
+  onJump: (number: string) => boolean;
+  onLast?: () => void; // Unset while there is no previous channel
+  onTimeshift: (timeshift: Timeshift | null) => void; // null goes back to live
   onClose: () => void;
-  onError?: () => void;
+  onSourceFailed?: (source: Source, reason: string) => void;
+  onSourcePlaying?: (source: Source) => void;
 }
 
-const VideoPlayer: React.FC<VideoPlayerProps> = ({ url, name, resolution, latency, onClose, onError }) => {
+const BANNER_MS = 4000;
+const NUMBER_ENTRY_MS = 1500; // Pause after the last digit before jumping
+
+const KEY_HELP = '↑/↓ 换台 · 数字键选台 · ← 上一个频道 · → 换源 · I 频道信息 · F 全屏 · P 画中画 · M 静音 · Esc 退出';
+
+/**
+ * Player for one channel, with failover (see usePlayback), source pinning and
+ * a stats overlay. Shown as a corner window, or in full mode with channel
+ * zapping, number entry and remote-friendly keys. The video element stays
+ * mounted across channel changes, so picture-in-picture keeps going.
+ * Channels with catch-up can replay from the guide or seek back from live.
+ */
+const VideoPlayer: React.FC<VideoPlayerProps> = ({
+  channelId, name, number, group, sources, startSourceId, mode, timeshift, canTimeshift, guide, nowNext,
+  onModeChange, onZap, onJump, onLast, onTimeshift, onClose, onSourceFailed, onSourcePlaying
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
   const videoRef = useRef<HTMLVideoElement>(null);
-  const hlsRef = useRef<Hls | null>(null);
-  const [error, setError] = useState<string | null>(null);
-  const [loading, setLoading] = useState(true);
+  const { source, position, queueLength, error, loading, pinned, setPinned, skip, retry, trackerRef } =
+    usePlayback(videoRef, {
+      channelId,
+      sources,
+      startSourceId,
+      timeshift,
+      // A replay URL failing says nothing about the live stream
+      onSourceFailed: timeshift ? undefined : onSourceFailed,
+      onSourcePlaying: timeshift ? undefined : onSourcePlaying
+    });
+  const [showStats, setShowStats] = useState(() => loadSetting('playerStats', false));
+  const [metrics, setMetrics] = useState<PlaybackMetrics | null>(null);
+  const [banner, setBanner] = useState(true);
+  const [digits, setDigits] = useState('');
+  const [notFound, setNotFound] = useState<string | null>(null);
+  const full = mode === 'full';
+
+  const toggleStats = () => {
+    setShowStats(!showStats);
+    saveSetting('playerStats', !showStats);
+  };
+
+  // The overlay samples the tracker once a second while it is shown
+  useEffect(() => {
+    if (!showStats) return;
+    const sample = () => setMetrics(trackerRef.current?.snapshot() ?? null);
+    sample();
+    const timer = setInterval(sample, 1000);
+    return () => clearInterval(timer);
+  }, [showStats]);
 
+  // The banner comes up on every channel change (and on request), then hides again
+  useEffect(() => {
+    setBanner(true);
+  }, [channelId]);
   useEffect(() => {
+    if (!banner) return;
+    const timer = setTimeout(() => setBanner(false), BANNER_MS);
+    return () => clearTimeout(timer);
+  }, [banner, channelId]);
+
+  const commitDigits = (value: string) => {
+    setDigits('');
+    if (!latest.current.onJump(value)) setNotFound(value);
+  };
+
+  // Typed digits jump once the user pauses
+  useEffect(() => {
+    if (!digits) return;
+    const timer = setTimeout(() => commitDigits(digits), NUMBER_ENTRY_MS);
+    return () => clearTimeout(timer);
+  }, [digits]);
+
+  useEffect(() => {
+    if (!notFound) return;
+    const timer = setTimeout(() => setNotFound(null), NUMBER_ENTRY_MS);
+    return () => clearTimeout(timer);
+  }, [notFound]);
+
+  const togglePip = () => {
     const video = videoRef.current;
-    if (!video) return;
+    if (!video || !document.pictureInPictureEnabled) return;
+    if (document.pictureInPictureElement) document.exitPictureInPicture().catch(() => {});
+    else video.requestPictureInPicture().catch(e => console.warn('Picture-in-picture failed', e));
+  };
 
-    setError(null);
-    setLoading(true);
+  const toggleFullscreen = () => {
+    if (document.fullscreenElement) document.exitFullscreen().catch(() => {});
+    else containerRef.current?.requestFullscreen().catch(e => console.warn('Fullscreen failed', e));
+  };
 
-    const handleMediaError = () => {
-       setError("播放失败 (Playback Failed)");
-       if (onError) onError();
-    };
+  // Seeking back from live plays the recording up to now
+  const seekBack = (minutes: number) => {
+    const now = Date.now();
+    onTimeshift({ start: now - minutes * 60 * 1000, end: now });
+  };
 
-    if (Hls.isSupported()) {
-      if (hlsRef.current) {
-        hlsRef.current.destroy();
-      }
+  const setMode = (next: PlayerMode) => {
+    if (next === 'mini' && document.fullscreenElement) document.exitFullscreen().catch(() => {});
+    onModeChange(next);
+  };
+
+  // Key handling outlives the render that registered it
+  const latest = useRef({ digits, onZap, onJump, onLast, skip, setMode });
+  latest.current = { digits, onZap, onJump, onLast, skip, setMode };
 
-      const hls = new Hls({
-        enableWorker: true,
-        lowLatencyMode: true,
-      });
-      hlsRef.current = hls;
-
-      hls.loadSource(url);
-      hls.attachMedia(video);
-
-      hls.on(Hls.Events.MANIFEST_PARSED, () => {
-        setLoading(false);
-        video.play().catch(e => console.warn("Autoplay blocked", e));
-      });
-
-      hls.on(Hls.Events.ERROR, (event, data) => {
-        if (data.fatal) {
-          switch (data.type) {
-            case Hls.ErrorTypes.NETWORK_ERROR:
-              console.error("HLS Network error");
-              hls.startLoad();
-              break;
-            case Hls.ErrorTypes.MEDIA_ERROR:
-              console.error("HLS Media error");
-              hls.recoverMediaError();
-              break;
-            default:
-              hls.destroy();
-              handleMediaError();
-              break;
-          }
-        }
-      });
-    } else if (video.canPlayType('application/vnd.apple.mpegurl')) {
-      // Native HLS support (Safari)
-      video.src = url;
-      video.addEventListener('loadedmetadata', () => {
-        setLoading(false);
-        video.play().catch(e => console.warn("Autoplay blocked", e));
-      });
-      video.addEventListener('error', handleMediaError);
-    } else {
-      setError("浏览器不支持 HLS 播放");
-      setLoading(false);
-    }
-
-    return () => {
-      if (hlsRef.current) {
-        hlsRef.current.destroy();
+  // Remote-friendly keys, only in full mode so they don't fight the list's scrolling
+  useEffect(() => {
+    if (!full) return;
+    const handleKey = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.closest('input, textarea, select') || e.ctrlKey || e.metaKey || e.altKey) return;
+      const { digits, onZap, onLast, skip, setMode } = latest.current;
+
+      if (/^[0-9]$/.test(e.key)) {
+        setDigits(d => (d + e.key).slice(-4));
+      } else if (e.key === 'ArrowUp' || e.key === 'PageUp' || e.key === 'ChannelUp' || e.key === 'MediaTrackNext') {
+        onZap(1);
+      } else if (e.key === 'ArrowDown' || e.key === 'PageDown' || e.key === 'ChannelDown' || e.key === 'MediaTrackPrevious') {
+        onZap(-1);
+      } else if (e.key === 'ArrowLeft') {
+        onLast?.();
+      } else if (e.key === 'ArrowRight') {
+        skip();
+      } else if (e.key === 'Enter') {
+        if (digits) commitDigits(digits);
+        else setBanner(true);
+      } else if (e.key === 'Backspace') {
+        if (digits) setDigits(d => d.slice(0, -1));
+        else onLast?.();
+      } else if (e.key === 'Escape' || e.key === 'GoBack' || e.key === 'BrowserBack') {
+        if (!document.fullscreenElement) setMode('mini'); // Esc in fullscreen only leaves fullscreen
+      } else if (e.key === 'i' || e.key === 'Info') {
+        setBanner(b => !b);
+      } else if (e.key === 'f') {
+        toggleFullscreen();
+      } else if (e.key === 'p') {
+        togglePip();
+      } else if (e.key === 'm') {
+        if (videoRef.current) videoRef.current.muted = !videoRef.current.muted;
+      } else {
+        return;
       }
+      e.preventDefault();
     };
-  }, [url]);
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [full]);
+
+  const iconButton = 'p-1 rounded hover:text-white transition-colors disabled:opacity-40';
 
   return (
-    <div className="fixed bottom-4 right-4 w-80 sm:w-96 bg-slate-900 border border-slate-700 shadow-2xl rounded-lg overflow-hidden z-50 flex flex-col animate-in slide-in-from-bottom-5 fade-in">
-      <div className="bg-slate-800 p-2 flex justify-between items-center border-b border-slate-700">
+    <div
+      ref={containerRef}
+      className={full
+        ? 'fixed inset-0 bg-black z-50 flex flex-col'
+        : 'fixed bottom-4 right-4 w-80 sm:w-96 bg-slate-900 border border-slate-700 shadow-2xl rounded-lg overflow-hidden z-50 flex flex-col animate-in slide-in-from-bottom-5 fade-in'}
+    >
+      <div className={`p-2 flex justify-between items-center ${full ? 'absolute top-0 inset-x-0 z-20 bg-gradient-to-b from-black/80 to-transparent' : 'bg-slate-800 border-b border-slate-700'}`}>
         <h3 className="text-sm font-semibold text-slate-200 truncate pr-2">
           {name}
+          {timeshift && (
+            <span className="ml-2 px-1.5 py-0.5 rounded bg-amber-500/20 text-amber-300 text-[10px] font-normal">
+              回看 {formatTime(timeshift.start)}{timeshift.title ? ` ${timeshift.title}` : ''}
+            </span>
+          )}
         </h3>
-        <button 
+        <button
           onClick={onClose}
           className="text-slate-400 hover:text-white transition-colors"
         >
           <X size={16} />
         </button>
       </div>
-      
-      <div className="relative bg-black aspect-video flex items-center justify-center">
+
+      <div className={`relative bg-black flex items-center justify-center ${full ? 'flex-1 min-h-0' : 'aspect-video'}`}>
         {loading && !error && (
           <div className="absolute inset-0 flex items-center justify-center z-10 bg-black/50">
             <RefreshCw className="animate-spin text-white" size={24} />
           </div>
         )}
-        
+
         {error && (
           <div className="absolute inset-0 flex flex-col items-center justify-center z-10 bg-slate-900/90 text-red-400 p-4 text-center">
             <AlertTriangle className="mb-2" size={24} />
             <p className="text-xs">{error}</p>
+            <button onClick={retry} className="mt-3 px-3 py-1 rounded bg-slate-800 hover:bg-slate-700 text-slate-300 text-xs">
+              重试
+            </button>
           </div>
         )}
 
-        <video 
-          ref={videoRef} 
-          className="w-full h-full object-contain" 
-          controls 
-          autoPlay 
+        {showStats && metrics && <PlaybackStats metrics={metrics} />}
+
+        {full && (digits || notFound) && (
+          <div className="absolute top-12 right-6 z-20 px-4 py-2 rounded-lg bg-black/70 font-mono text-4xl text-cyan-300">
+            {digits ? digits.padEnd(3, '-') : <span className="text-base text-red-400">无频道 {notFound}</span>}
+          </div>
+        )}
+
+        {full && banner && (
+          <div className="absolute bottom-6 left-6 right-6 z-20 flex items-center gap-4 px-5 py-3 rounded-xl bg-slate-900/85 border border-slate-700 pointer-events-none">
+            <span className="font-mono text-3xl text-cyan-300">{number}</span>
+            <div className="min-w-0 flex-1">
+              <div className="flex items-baseline gap-3">
+                <span className="text-xl text-slate-100 truncate">{name}</span>
+                <span className="text-xs text-slate-500">{group}</span>
+                <span className="text-xs text-slate-500 font-mono ml-auto">源 {position + 1}/{queueLength} · {source?.resolution || 'Auto'}</span>
+              </div>
+              {nowNext}
+            </div>
+          </div>
+        )}
+
+        <video
+          ref={videoRef}
+          className="w-full h-full object-contain"
+          controls={!full}
+          autoPlay
+          playsInline
           muted={false}
         />
       </div>
-      
-      <div className="bg-slate-800 px-3 py-1.5 flex justify-between text-xs text-slate-400">
-        <span>{resolution || 'Auto'}</span>
-        <span>延迟: {latency ? `${latency}ms` : 'N/A'}</span>
+
+      <div className={`px-3 py-1.5 flex items-center gap-3 text-xs text-slate-400 ${full ? 'bg-slate-900/90' : 'bg-slate-800'}`}>
+        {full && (
+          <>
+            <button onClick={() => onZap(-1)} className={iconButton} title="上一个频道 (↓)">
+              <ChevronDown size={16} />
+            </button>
+            <button onClick={() => onZap(1)} className={iconButton} title="下一个频道 (↑)">
+              <ChevronUp size={16} />
+            </button>
+            <button onClick={onLast} disabled={!onLast} className={iconButton} title="返回上一个观看的频道 (←)">
+              <Undo2 size={16} />
+            </button>
+          </>
+        )}
+        <span className="font-mono" title={source?.url}>源 {position + 1}/{queueLength}</span>
+        <span>{source?.resolution || 'Auto'}</span>
+        <span>延迟: {source?.latency ? `${source.latency}ms` : 'N/A'}</span>
+        {full && <span className="hidden lg:inline text-slate-600">{KEY_HELP}</span>}
+        <div className="ml-auto flex items-center gap-1">
+          {timeshift ? (
+            <button
+              onClick={() => onTimeshift(null)}
+              className="flex items-center gap-1 px-1.5 py-0.5 rounded bg-amber-500/20 text-amber-300 hover:bg-amber-500/30"
+              title="返回直播"
+            >
+              <Radio size={12} /> 直播
+            </button>
+          ) : canTimeshift && (
+            <label className="flex items-center gap-0.5 hover:text-white" title="时移: 从若干分钟前开始播放">
+              <History size={14} />
+              <select
+                value=""
+                onChange={(e) => e.target.value && seekBack(Number(e.target.value))}
+                className="bg-transparent text-xs focus:outline-none cursor-pointer"
+              >
+                <option value="">时移</option>
+                {TIMESHIFT_STEPS_MINUTES.map(m => (
+                  <option key={m} value={m} className="bg-slate-800">-{m} 分钟</option>
+                ))}
+              </select>
+            </label>
+          )}
+          <button
+            onClick={toggleStats}
+            className={`p-1 rounded transition-colors ${showStats ? 'text-cyan-400' : 'hover:text-white'}`}
+            title="播放统计"
+          >
+            <Gauge size={14} />
+          </button>
+          <button
+            onClick={() => setPinned(p => !p)}
+            className={`p-1 rounded transition-colors ${pinned ? 'text-cyan-400' : 'hover:text-white'}`}
+            title={pinned ? '取消锁定 (允许自动切换)' : '锁定当前源 (不自动切换)'}
+          >
+            {pinned ? <PinOff size={14} /> : <Pin size={14} />}
+          </button>
+          <button onClick={skip} disabled={queueLength < 2} className={iconButton} title="切换到下一个源">
+            <SkipForward size={14} />
+          </button>
+          {document.pictureInPictureEnabled && (
+            <button onClick={togglePip} className={iconButton} title="画中画">
+              <PictureInPicture2 size={14} />
+            </button>
+          )}
+          {full && (
+            <button onClick={toggleFullscreen} className={iconButton} title="全屏 (F)">
+              <Maximize size={14} />
+            </button>
+          )}
+          <button
+            onClick={() => setMode(full ? 'mini' : 'full')}
+            className={iconButton}
+            title={full ? '退出全屏播放 (Esc)' : '全屏播放 (支持遥控器换台)'}
+          >
+            {full ? <Minimize2 size={14} /> : <Maximize2 size={14} />}
+          </button>
+        </div>
       </div>
+
+      {guide && !full && (
+        <div className="border-t border-slate-700 bg-slate-900">
+          {guide}
+        </div>
+      )}
     </div>
   );
 };
@@ -1,4 +1,4 @@
-import { PlaylistPreset } from './types';
+import { PlaylistPreset, MonitorSettings, NamingConfig, FilterPreset } from './types';
 
 export const PRESETS: PlaylistPreset[] = [
   {
@@ -34,4 +34,87 @@ export const PRESETS: PlaylistPreset[] = [
 ];
 
 export const TIMEOUT_MS = 6000;
-export const BATCH_SIZE = 12;
\ No newline at end of file
+export const CHECK_CONCURRENCY = 12; // probes in flight at once
+export const PER_HOST_CONCURRENCY = 4; // of which at most this many against one host
+export const CHECK_FLUSH_MS = 250; // results are applied to state in batches this often
+
+// Local probe service (see server/probeProxy.ts)
+export const PROBE_ENDPOINT = '/api/probe';
+export const PROBE_USER_AGENT = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0 Safari/537.36';
+export const MANIFEST_READ_LIMIT = 64 * 1024; // bytes read from a response body to inspect the manifest
+export const SEGMENT_READ_LIMIT = 16 * 1024; // bytes downloaded from a segment by deep checks
+
+// Client network (see utils/network.ts)
+export const IPV6_TEST_URL = 'https://api6.ipify.org?format=json'; // only answers over IPv6
+export const SAME_ISP_BONUS = 3000; // ranking points, worth 3s of latency either way
+
+// EPG (XMLTV)
+export const EPG_CACHE_TTL_MS = 6 * 60 * 60 * 1000;
+export const CATCHUP_MAX_DAYS = 7; // longest replay window the guide offers, longer catchup-days are cut to it
+// Programmes kept before now: the catch-up guide starts at midnight, CATCHUP_MAX_DAYS days back
+export const EPG_WINDOW_PAST_MS = (CATCHUP_MAX_DAYS + 1) * 24 * 60 * 60 * 1000;
+export const EPG_WINDOW_FUTURE_MS = 2 * 24 * 60 * 60 * 1000; // and after now
+
+// Check history (IndexedDB)
+export const HISTORY_MAX_RECORDS = 200; // per source
+export const RELIABILITY_MIN_SAMPLES = 3; // before uptime/p50 outweigh the latest result
+
+// Background monitor
+export const MONITOR_DEFAULTS: MonitorSettings = {
+  enabled: false,
+  intervalMinutes: 15,
+  concurrency: 4,
+  scope: 'all',
+  pauseWhenHidden: true,
+  browserNotifications: false
+};
+export const MAX_ALERTS = 50;
+
+// Check reports (see utils/report.ts)
+export const REPORT_RUNS_KEPT = 10;
+export const REPORT_TOP_N = 10; // fastest / slowest sources listed
+export const LATENCY_REGRESSION_RATIO = 1.5; // slower than this many times the previous run...
+export const LATENCY_REGRESSION_MS = 200; // ...and by at least this much counts as a regression
+
+// Player failover
+export const PLAYBACK_START_TIMEOUT_MS = 15000; // no first frame by then counts as a failure
+export const PLAYBACK_STALL_TIMEOUT_MS = 10000; // continuous buffering before switching source
+export const PLAYBACK_TEST_SECONDS = 10; // how long a deep test plays each source
+
+// Catch-up / timeshift
+export const CATCHUP_DEFAULT_DAYS = 3; // replay window when a playlist doesn't declare catchup-days
+export const TIMESHIFT_STEPS_MINUTES = [5, 15, 30, 60]; // seek-back choices for live channels
+
+// Channel name normalization (see utils/naming.ts)
+export const NAMING_DEFAULTS: NamingConfig = {
+  aliases: {},
+  splits: [],
+  rules: [],
+  stripWords: [
+    'HD', 'FHD', 'SD', 'UHD',
+    'HEVC', 'H.265', 'H265', 'H.264', 'H264',
+    'IPTV', 'LIVE', '直播',
+    '高清', '超清', '标清', '频道', '备用',
+    'TEST', '测试',
+    'IPV6', 'IPV4',
+    '1080P', '720P', '4K', '8K',
+    '50FPS', '60FPS',
+    '电信', '联通', '移动', '酒店'
+  ],
+  // Per-visit tokens and cache busters that don't change which stream is served
+  stripParams: [
+    'token', 'auth', 'auth_key', 'sign', 'signature', 'sig',
+    't', 'ts', 'time', 'timestamp', 'expires', 'e', 'st', 'nonce', '_',
+    'wsSecret', 'wsTime', 'txSecret', 'txTime',
+    'session', 'sessionid', 'sid', 'uuid', 'guid'
+  ]
+};
+
+// Starting set of saved filters; users can delete or add their own
+export const FILTER_PRESETS: FilterPreset[] = [
+  { name: '在线', query: 'status:online' },
+  { name: '高清在线', query: 'status:online res:>=720' },
+  { name: '低延迟', query: 'latency:<300' },
+  { name: 'IPv6', query: 'proto:ipv6' },
+  { name: '未检测', query: 'status:untested' }
+];
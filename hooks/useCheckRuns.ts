@@ -0,0 +1,24 @@
+import { useEffect, useRef, useState } from 'react';
+import { CheckRun } from '../types';
+import { loadRuns, saveRun } from '../utils/report';
+
+/**
+ * The stored "检测全部" runs, oldest first, for the check report and its diff
+ */
+export const useCheckRuns = () => {
+  const [runs, setRuns] = useState<CheckRun[]>([]);
+  const latest = useRef(runs);
+  latest.current = runs;
+
+  useEffect(() => {
+    loadRuns().then(loaded => setRuns(prev => [...loaded, ...prev]));
+  }, []);
+
+  const record = async (run: CheckRun) => {
+    const kept = await saveRun(run, latest.current);
+    latest.current = kept;
+    setRuns(kept);
+  };
+
+  return { runs, record };
+};
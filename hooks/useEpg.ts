@@ -0,0 +1,88 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Channel, EpgNowNext, NamingConfig } from '../types';
+import { loadEpg, getNowNext, setEpgNaming, EpgLoadResult } from '../utils/epg';
+import { loadSetting, saveSetting } from '../utils/storage';
+
+const CLOCK_INTERVAL_MS = 30 * 1000;
+
+/**
+ * EPG state for the app: configured guide URL/files, the guides declared by the
+ * loaded playlists, and now/next for every channel (refreshed on a clock).
+ * Guide channels are matched to playlist channels with the same naming config.
+ */
+export const useEpg = (channels: Channel[], playlistUrls: string[], ready: boolean, naming: NamingConfig) => {
+  const [url, setUrl] = useState<string>(() => loadSetting('epg.url', ''));
+  const [files, setFiles] = useState<string[]>(() => loadSetting('epg.files', []));
+  const [status, setStatus] = useState<EpgLoadResult | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [version, setVersion] = useState(0); // bumped whenever the worker index changes
+  const [now, setNow] = useState(Date.now());
+  const [nowNext, setNowNext] = useState<Record<string, EpgNowNext>>({});
+
+  const urls = [url, ...playlistUrls].filter(Boolean);
+  const urlsKey = urls.join('\n');
+
+  const reload = async (force = false, fileList = files, upload?: { name: string, data: ArrayBuffer }) => {
+    if (urls.length === 0 && fileList.length === 0 && version === 0) return;
+    setLoading(true);
+    try {
+      const fileInputs: { name: string, data?: ArrayBuffer }[] = fileList.map(name =>
+        name === upload?.name ? upload : { name });
+      setStatus(await loadEpg(urls, fileInputs, force));
+      setVersion(v => v + 1);
+    } catch (e) {
+      setStatus({ channelCount: 0, programmeCount: 0, errors: [e instanceof Error ? e.message : String(e)] });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Sent before the first load, so the first index already uses it
+  useEffect(() => {
+    setEpgNaming(naming)
+      .then(() => setVersion(v => v === 0 ? v : v + 1))
+      .catch(e => console.warn('EPG naming update failed', e));
+  }, [naming]);
+
+  useEffect(() => {
+    reload();
+  }, [urlsKey]);
+
+  // Clock for now/next and progress bars
+  useEffect(() => {
+    const id = setInterval(() => setNow(Date.now()), CLOCK_INTERVAL_MS);
+    return () => clearInterval(id);
+  }, []);
+
+  // Checks replace the channel array without changing who the channels are,
+  // so only a change of ids, names or tvg-ids (a refresh, a merge) re-queries
+  const channelsKey = useMemo(() => channels.map(ch => `${ch.id}\t${ch.tvgId ?? ''}\t${ch.name}`).join('\n'), [channels]);
+
+  useEffect(() => {
+    if (!ready || version === 0) return;
+    const refs = channels.map(ch => ({ id: ch.id, tvgId: ch.tvgId, name: ch.name }));
+    getNowNext(refs, now).then(setNowNext).catch(e => console.warn('EPG lookup failed', e));
+  }, [ready, version, now, channelsKey]);
+
+  const updateUrl = (value: string) => {
+    setUrl(value);
+    saveSetting('epg.url', value);
+  };
+
+  const upload = async (file: File) => {
+    const data = await file.arrayBuffer();
+    const next = files.includes(file.name) ? files : [...files, file.name];
+    setFiles(next);
+    saveSetting('epg.files', next);
+    await reload(false, next, { name: file.name, data });
+  };
+
+  const removeFile = (name: string) => {
+    const next = files.filter(f => f !== name);
+    setFiles(next);
+    saveSetting('epg.files', next);
+    reload(false, next);
+  };
+
+  return { url, files, status, loading, version, now, nowNext, updateUrl, upload, removeFile, reload };
+};
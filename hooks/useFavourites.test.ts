@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { Channel, FavouritesState } from '../types';
+import { migrateFavourites } from './useFavourites';
+
+const channel = (id: string, rawNames: string[]): Channel => ({
+  id, name: id, group: 'Other', category: 'China', rawNames, sources: []
+});
+
+const state = (starred: string[], names: Record<string, string[]>, groupIds: string[] = []): FavouritesState => ({
+  starred,
+  groups: [{ id: 'group-1', name: '体育', channelIds: groupIds }],
+  names
+});
+
+describe('migrateFavourites', () => {
+  it.each([
+    ['a renamed channel', state(['old'], { old: ['CCTV5+ HD'] }), [channel('new', ['CCTV5+ HD'])], ['new']],
+    ['a split channel', state(['both'], { both: ['CCTV-5', 'CCTV-5+'] }), [channel('5', ['CCTV-5']), channel('5p', ['CCTV-5+'])], ['5', '5p']],
+    ['two channels merged into one', state(['a', 'b'], { a: ['湖南卫视'], b: ['湖南卫视 HD'] }), [channel('hn', ['湖南卫视', '湖南卫视 HD'])], ['hn']],
+    ['a channel whose playlist is not loaded', state(['gone'], { gone: ['凤凰卫视'] }), [channel('other', ['CCTV-1'])], ['gone']],
+    ['a channel with no known names', state(['legacy'], {}), [channel('other', ['CCTV-1'])], ['legacy']],
+    ['a channel that kept its id', state(['same'], { same: ['CCTV-1'] }), [channel('same', ['CCTV-1']), channel('x', ['CCTV-1 HD'])], ['same']]
+  ] as [string, FavouritesState, Channel[], string[]][])('follows %s', (_, before, channels, expected) => {
+    expect(migrateFavourites(before, channels).starred).toEqual(expected);
+  });
+
+  it('moves custom group members the same way', () => {
+    const next = migrateFavourites(state([], { old: ['CCTV-5'] }, ['old']), [channel('new', ['CCTV-5'])]);
+    expect(next.groups[0].channelIds).toEqual(['new']);
+  });
+
+  it('records the names of newly listed channels and drops unlisted ones', () => {
+    const next = migrateFavourites(state(['a'], { b: ['CCTV-2'] }), [channel('a', ['CCTV-1', 'CCTV1'])]);
+    expect(next.names).toEqual({ a: ['CCTV-1', 'CCTV1'] });
+  });
+
+  it.each([
+    ['nothing moved', state(['a'], { a: ['CCTV-1'] }), [channel('a', ['CCTV-1'])]],
+    ['no channels are loaded yet', state(['a'], { a: ['CCTV-1'] }), []]
+  ] as [string, FavouritesState, Channel[]][])('returns the same state when %s', (_, before, channels) => {
+    expect(migrateFavourites(before, channels)).toBe(before);
+  });
+});
@@ -0,0 +1,127 @@
+import { useEffect, useState } from 'react';
+import { Channel, FavouritesState } from '../types';
+import { loadSetting, saveSetting } from '../utils/storage';
+
+export const STARRED_LIST = 'starred';
+
+const EMPTY: FavouritesState = { starred: [], groups: [] };
+
+const move = (ids: string[], id: string, beforeId: string | null) => {
+  const rest = ids.filter(x => x !== id);
+  const index = beforeId === null ? -1 : rest.indexOf(beforeId);
+  if (index === -1) return [...rest, id];
+  return [...rest.slice(0, index), id, ...rest.slice(index)];
+};
+
+/**
+ * Follows listed channels to their new ids after a naming rule, alias, merge or
+ * split changed them. A channel id that is gone is replaced by the channels now
+ * carrying its raw playlist names; ids with no such channel are kept, their
+ * playlist may simply not have loaded yet. Returns the same state when nothing moved.
+ */
+export const migrateFavourites = (state: FavouritesState, channels: Channel[]): FavouritesState => {
+  if (channels.length === 0) return state;
+  const byId = new Map(channels.map(c => [c.id, c]));
+  const byRawName = new Map<string, string>();
+  channels.forEach(c => c.rawNames.forEach(name => byRawName.set(name, c.id)));
+
+  // Rebuilt from the listed ids, so names of channels taken off every list are dropped
+  const names: Record<string, string[]> = {};
+  const remap = (ids: string[]) => {
+    const next = ids.flatMap(id => {
+      const channel = byId.get(id);
+      if (channel) {
+        names[id] = channel.rawNames;
+        return [id];
+      }
+      const known = state.names?.[id] || [];
+      const moved = [...new Set(known.map(name => byRawName.get(name)).filter((x): x is string => !!x))];
+      if (moved.length === 0) {
+        if (known.length) names[id] = known;
+        return [id];
+      }
+      moved.forEach(newId => { names[newId] = byId.get(newId)!.rawNames; });
+      return moved;
+    });
+    // A merge can bring two listed channels onto one id
+    return [...new Set(next)];
+  };
+
+  const starred = remap(state.starred);
+  const groups = state.groups.map(g => ({ ...g, channelIds: remap(g.channelIds) }));
+  const before = JSON.stringify([state.starred, state.groups.map(g => g.channelIds), state.names || {}]);
+  if (JSON.stringify([starred, groups.map(g => g.channelIds), names]) === before) return state;
+  return { ...state, starred, groups, names };
+};
+
+/**
+ * Starred channels and user-named groups, each with its own manual order.
+ * Keyed by channel id; the raw names behind each id are remembered so the lists
+ * follow a channel whose id changes with the naming rules.
+ */
+export const useFavourites = (channels: Channel[]) => {
+  const [state, setState] = useState<FavouritesState>(() => ({ ...EMPTY, ...loadSetting('favourites', {}) }));
+
+  const save = (update: (prev: FavouritesState) => FavouritesState) => {
+    setState(prev => {
+      const next = update(prev);
+      saveSetting('favourites', next);
+      return next;
+    });
+  };
+
+  // Also runs when a channel is added, so its names are known before the next rename
+  useEffect(() => {
+    setState(prev => {
+      const next = migrateFavourites(prev, channels);
+      if (next !== prev) saveSetting('favourites', next);
+      return next;
+    });
+  }, [channels, state.starred, state.groups]);
+
+  // Applies to the starred list or a custom group
+  const updateList = (listId: string, update: (ids: string[]) => string[]) => save(prev =>
+    listId === STARRED_LIST
+      ? { ...prev, starred: update(prev.starred) }
+      : { ...prev, groups: prev.groups.map(g => g.id === listId ? { ...g, channelIds: update(g.channelIds) } : g) });
+
+  const listIds = (listId: string): string[] =>
+    listId === STARRED_LIST ? state.starred : state.groups.find(g => g.id === listId)?.channelIds || [];
+
+  const isStarred = (channelId: string) => state.starred.includes(channelId);
+
+  const toggleStar = (channelId: string) =>
+    updateList(STARRED_LIST, ids => ids.includes(channelId) ? ids.filter(id => id !== channelId) : [...ids, channelId]);
+
+  const toggleInGroup = (groupId: string, channelId: string) =>
+    updateList(groupId, ids => ids.includes(channelId) ? ids.filter(id => id !== channelId) : [...ids, channelId]);
+
+  // Drag and drop: put `channelId` right before `beforeId` (or at the end)
+  const reorder = (listId: string, channelId: string, beforeId: string | null) =>
+    updateList(listId, ids => move(ids, channelId, beforeId));
+
+  const createGroup = (name: string) => {
+    const id = `group-${Date.now().toString(36)}`;
+    save(prev => ({ ...prev, groups: [...prev.groups, { id, name, channelIds: [] }] }));
+    return id;
+  };
+
+  const renameGroup = (groupId: string, name: string) =>
+    save(prev => ({ ...prev, groups: prev.groups.map(g => g.id === groupId ? { ...g, name } : g) }));
+
+  const deleteGroup = (groupId: string) =>
+    save(prev => ({ ...prev, groups: prev.groups.filter(g => g.id !== groupId) }));
+
+  return {
+    starred: state.starred,
+    groups: state.groups,
+    listIds,
+    isStarred,
+    toggleStar,
+    toggleInGroup,
+    reorder,
+    createGroup,
+    renameGroup,
+    deleteGroup
+  };
+};
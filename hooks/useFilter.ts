@@ -0,0 +1,45 @@
+import { useEffect, useMemo, useState } from 'react';
+import { FilterPreset } from '../types';
+import { FILTER_PRESETS } from '../constants';
+import { parseFilter, createFilter } from '../utils/filter';
+import { loadSetting, saveSetting } from '../utils/storage';
+
+const URL_PARAM = 'q';
+
+/**
+ * Search query, mirrored in the page URL (?q=) so a filtered view can be bookmarked
+ * or shared, plus the user's saved filter presets
+ */
+export const useFilter = () => {
+  const [query, setQuery] = useState(() => new URLSearchParams(window.location.search).get(URL_PARAM) ?? '');
+  const [presets, setPresets] = useState<FilterPreset[]>(() => loadSetting('filterPresets', FILTER_PRESETS));
+
+  useEffect(() => {
+    const url = new URL(window.location.href);
+    if (query.trim()) url.searchParams.set(URL_PARAM, query.trim());
+    else url.searchParams.delete(URL_PARAM);
+    if (url.href !== window.location.href) window.history.replaceState(window.history.state, '', url);
+  }, [query]);
+
+  const parsed = useMemo(() => parseFilter(query), [query]);
+  const matches = useMemo(() => createFilter(parsed), [parsed]);
+
+  const savePresets = (next: FilterPreset[]) => {
+    setPresets(next);
+    saveSetting('filterPresets', next);
+  };
+
+  // Saving under an existing name replaces that preset
+  const savePreset = (name: string) => {
+    const trimmed = name.trim();
+    if (!trimmed || !query.trim()) return;
+    const preset = { name: trimmed, query: query.trim() };
+    savePresets(presets.some(p => p.name === trimmed)
+      ? presets.map(p => p.name === trimmed ? preset : p)
+      : [...presets, preset]);
+  };
+
+  const deletePreset = (name: string) => savePresets(presets.filter(p => p.name !== name));
+
+  return { query, setQuery, errors: parsed.errors, matches, presets, savePreset, deletePreset };
+};
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { Channel, CheckOutcome, Source } from '../types';
+import { diffAlerts } from './useMonitor';
+
+const source = (id: string, status: Source['status']): Source => ({ id, url: `http://a.tv/${id}`, origins: [], status, latency: null });
+
+const channel = (id: string, sources: Source[]): Channel => ({
+  id, name: id, group: 'Other', category: 'China', rawNames: [id], sources, bestSource: sources[0]
+});
+
+const outcome = (channelId: string, sourceId: string, status: CheckOutcome['status']): CheckOutcome => ({ channelId, sourceId, status });
+
+describe('diffAlerts', () => {
+  it.each([
+    ['the only source went offline', [source('a', 'online')], [outcome('ch', 'a', 'offline')], 'down'],
+    ['a source came back', [source('a', 'offline'), source('b', 'offline')], [outcome('ch', 'b', 'online')], 'up'],
+    ['another source is still online but was not probed', [source('a', 'online'), source('b', 'online')], [outcome('ch', 'a', 'offline')], null],
+    ['every source went offline', [source('a', 'online'), source('b', 'online')], [outcome('ch', 'a', 'offline'), outcome('ch', 'b', 'offline')], 'down'],
+    ['the unprobed source is still being checked elsewhere', [source('a', 'online'), source('b', 'checking')], [outcome('ch', 'a', 'offline')], 'down'],
+    ['nothing changed', [source('a', 'online')], [outcome('ch', 'a', 'online')], null]
+  ] as [string, Source[], CheckOutcome[], 'up' | 'down' | null][])('%s', (_, sources, outcomes, kind) => {
+    const alerts = diffAlerts([channel('ch', sources)], outcomes, 1);
+    expect(alerts.map(a => a.kind)).toEqual(kind ? [kind] : []);
+  });
+
+  it('ignores channels that were never checked or not part of the run', () => {
+    const never = channel('never', [source('a', 'idle')]);
+    const other = channel('other', [source('b', 'online')]);
+    expect(diffAlerts([never, other], [outcome('never', 'a', 'online')], 1)).toEqual([]);
+  });
+});
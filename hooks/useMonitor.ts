@@ -0,0 +1,126 @@
+import { useEffect, useRef, useState } from 'react';
+import { Channel, CheckOutcome, MonitorAlert, MonitorSettings } from '../types';
+import { MONITOR_DEFAULTS, MAX_ALERTS } from '../constants';
+import { loadSetting, saveSetting } from '../utils/storage';
+
+const TICK_MS = 15 * 1000;
+
+interface MonitorOptions {
+  getTargets: (scope: MonitorSettings['scope']) => Channel[];
+  check: (targets: Channel[], concurrency: number) => Promise<CheckOutcome[]>;
+}
+
+const hasWorkingSource = (ch: Channel) => ch.sources.some(s => s.status === 'online');
+const wasChecked = (ch: Channel) => ch.sources.some(s => s.status !== 'idle' && s.status !== 'checking');
+
+/**
+ * Compares channel health before and after a run: a channel that had a working
+ * source and now has none went down; a checked channel without one that now has one came back.
+ * Sources the run didn't probe (skipped, or in flight elsewhere) keep their earlier status,
+ * so a partial run can't take a channel down while another of its sources is still online.
+ */
+export const diffAlerts = (before: Channel[], outcomes: CheckOutcome[], ts: number): MonitorAlert[] => {
+  const probed = new Map<string, CheckOutcome['status']>();
+  outcomes.forEach(o => probed.set(o.sourceId, o.status));
+  const touched = new Set(outcomes.map(o => o.channelId));
+
+  const alerts: MonitorAlert[] = [];
+  before.forEach(ch => {
+    if (!touched.has(ch.id) || !wasChecked(ch)) return;
+    const wasUp = hasWorkingSource(ch);
+    const isUp = ch.sources.some(s => (probed.get(s.id) ?? s.status) === 'online');
+    if (wasUp === isUp) return;
+    alerts.push({ id: `${ch.id}-${ts}`, channelId: ch.id, channelName: ch.name, kind: isUp ? 'up' : 'down', ts });
+  });
+  return alerts;
+};
+
+const notify = (alerts: MonitorAlert[]) => {
+  if (typeof Notification === 'undefined' || Notification.permission !== 'granted' || alerts.length === 0) return;
+  const down = alerts.filter(a => a.kind === 'down').map(a => a.channelName);
+  const up = alerts.filter(a => a.kind === 'up').map(a => a.channelName);
+  const lines = [
+    down.length ? `离线: ${down.slice(0, 5).join('、')}${down.length > 5 ? ` 等 ${down.length} 个` : ''}` : '',
+    up.length ? `恢复: ${up.slice(0, 5).join('、')}${up.length > 5 ? ` 等 ${up.length} 个` : ''}` : ''
+  ].filter(Boolean);
+  new Notification('IPTV 监控', { body: lines.join('\n'), tag: 'iptv-monitor' });
+};
+
+/**
+ * Periodically re-checks channels in the background and raises alerts on state changes.
+ * Runs don't overlap each other, and don't block manual checks.
+ */
+export const useMonitor = ({ getTargets, check }: MonitorOptions) => {
+  const [settings, setSettings] = useState<MonitorSettings>(() => ({ ...MONITOR_DEFAULTS, ...loadSetting('monitor', {}) }));
+  const [alerts, setAlerts] = useState<MonitorAlert[]>([]);
+  const [running, setRunning] = useState(false);
+  const [lastRunAt, setLastRunAt] = useState<number | null>(null);
+
+  // Callbacks change every render; the timer always calls the latest
+  const latest = useRef({ getTargets, check, settings });
+  latest.current = { getTargets, check, settings };
+  const runningRef = useRef(false);
+  const lastRunRef = useRef<number | null>(null);
+
+  const runNow = async () => {
+    if (runningRef.current) return;
+    const { getTargets, check, settings } = latest.current;
+    const targets = getTargets(settings.scope);
+    if (targets.length === 0) return;
+
+    runningRef.current = true;
+    setRunning(true);
+    try {
+      const outcomes = await check(targets, settings.concurrency);
+      const ts = Date.now();
+      const found = diffAlerts(targets, outcomes, ts);
+      if (found.length > 0) {
+        setAlerts(prev => [...found, ...prev].slice(0, MAX_ALERTS));
+        if (latest.current.settings.browserNotifications) notify(found);
+      }
+    } finally {
+      lastRunRef.current = Date.now();
+      setLastRunAt(lastRunRef.current);
+      runningRef.current = false;
+      setRunning(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!settings.enabled) return;
+
+    const tick = () => {
+      const { settings } = latest.current;
+      if (settings.pauseWhenHidden && document.visibilityState === 'hidden') return;
+      const due = !lastRunRef.current || Date.now() - lastRunRef.current >= settings.intervalMinutes * 60 * 1000;
+      if (due) runNow();
+    };
+
+    const id = setInterval(tick, TICK_MS);
+    // Catch up straight away when the tab becomes visible again
+    document.addEventListener('visibilitychange', tick);
+    return () => {
+      clearInterval(id);
+      document.removeEventListener('visibilitychange', tick);
+    };
+  }, [settings.enabled]);
+
+  const updateSettings = async (changes: Partial<MonitorSettings>) => {
+    if (changes.browserNotifications && typeof Notification !== 'undefined' && Notification.permission === 'default') {
+      const permission = await Notification.requestPermission();
+      if (permission !== 'granted') changes = { ...changes, browserNotifications: false };
+    }
+    setSettings(prev => {
+      const next = { ...prev, ...changes };
+      saveSetting('monitor', next);
+      return next;
+    });
+  };
+
+  const dismissAlert = (id: string) => setAlerts(prev => prev.filter(a => a.id !== id));
+  const clearAlerts = () => setAlerts([]);
+
+  const nextRunAt = settings.enabled && lastRunAt ? lastRunAt + settings.intervalMinutes * 60 * 1000 : null;
+
+  return { settings, updateSettings, alerts, dismissAlert, clearAlerts, running, lastRunAt, nextRunAt, runNow };
+};
@@ -0,0 +1,60 @@
+import { useState } from 'react';
+import { MultiViewLayout, MultiViewState } from '../types';
+import { loadSetting, saveSetting } from '../utils/storage';
+
+const MAX_TILES = 9;
+
+const DEFAULT_STATE: MultiViewState = {
+  layout: 4,
+  tiles: Array(MAX_TILES).fill(null),
+  audio: null
+};
+
+/**
+ * Multi-view grid: layout, which channel sits in which tile and which tile
+ * has the audio. Saved, so the wall comes back as it was left.
+ */
+export const useMultiView = () => {
+  const [state, setState] = useState<MultiViewState>(() => ({ ...DEFAULT_STATE, ...loadSetting('multiView', {}) }));
+
+  const save = (update: (prev: MultiViewState) => MultiViewState) => {
+    setState(prev => {
+      const next = update(prev);
+      saveSetting('multiView', next);
+      return next;
+    });
+  };
+
+  const setLayout = (layout: MultiViewLayout) => save(prev => ({
+    ...prev,
+    layout,
+    audio: prev.audio !== null && prev.audio < layout ? prev.audio : null
+  }));
+
+  const assign = (index: number, channelId: string | null) => save(prev => {
+    const tiles = [...prev.tiles];
+    tiles[index] = channelId;
+    return { ...prev, tiles, audio: channelId === null && prev.audio === index ? null : prev.audio };
+  });
+
+  // Into the first free visible tile; a full wall replaces the last one
+  const add = (channelId: string) => save(prev => {
+    if (prev.tiles.slice(0, prev.layout).includes(channelId)) return prev;
+    const free = prev.tiles.findIndex((id, i) => i < prev.layout && id === null);
+    const tiles = [...prev.tiles];
+    tiles[free === -1 ? prev.layout - 1 : free] = channelId;
+    return { ...prev, tiles };
+  });
+
+  // Dragging a tile onto another swaps them; the audio follows its channel
+  const swap = (from: number, to: number) => save(prev => {
+    const tiles = [...prev.tiles];
+    [tiles[from], tiles[to]] = [tiles[to], tiles[from]];
+    const audio = prev.audio === from ? to : prev.audio === to ? from : prev.audio;
+    return { ...prev, tiles, audio };
+  });
+
+  const toggleAudio = (index: number) => save(prev => ({ ...prev, audio: prev.audio === index ? null : index }));
+
+  return { ...state, setLayout, assign, add, swap, toggleAudio };
+};
@@ -0,0 +1,59 @@
+import { useState } from 'react';
+import { NameRule, NamingConfig } from '../types';
+import { NAMING_DEFAULTS } from '../constants';
+import { rawKey } from '../utils/naming';
+import { loadSetting, saveSetting } from '../utils/storage';
+
+/**
+ * The user's naming rules, alias table and manual merge/split overrides,
+ * plus the query parameters ignored when merging duplicate source URLs.
+ * Stored apart from the playlists, so they apply again after every refresh.
+ */
+export const useNaming = () => {
+  const [config, setConfig] = useState<NamingConfig>(() => ({ ...NAMING_DEFAULTS, ...loadSetting('naming', {}) }));
+
+  const save = (update: (prev: NamingConfig) => NamingConfig) => {
+    setConfig(prev => {
+      const next = update(prev);
+      saveSetting('naming', next);
+      return next;
+    });
+  };
+
+  // Every given name becomes an alias of the target channel
+  const merge = (rawNames: string[], target: string) => save(prev => {
+    const keys = rawNames.map(rawKey);
+    const aliases = { ...prev.aliases };
+    keys.forEach(key => {
+      if (key !== rawKey(target)) aliases[key] = target;
+    });
+    return { ...prev, aliases, splits: prev.splits.filter(s => !keys.includes(s)) };
+  });
+
+  // Undo a manual merge if there was one, otherwise keep the name out of rule-based merging
+  const split = (rawName: string) => save(prev => {
+    const key = rawKey(rawName);
+    if (prev.aliases[key] !== undefined) {
+      const { [key]: _removed, ...aliases } = prev.aliases;
+      return { ...prev, aliases };
+    }
+    return prev.splits.includes(key) ? prev : { ...prev, splits: [...prev.splits, key] };
+  });
+
+  const setAlias = (rawName: string, target: string) => save(prev => ({
+    ...prev,
+    aliases: { ...prev.aliases, [rawKey(rawName)]: target.trim() }
+  }));
+
+  const removeAlias = (key: string) => save(prev => {
+    const { [key]: _removed, ...aliases } = prev.aliases;
+    return { ...prev, aliases };
+  });
+
+  const removeSplit = (key: string) => save(prev => ({ ...prev, splits: prev.splits.filter(s => s !== key) }));
+  const setRules = (rules: NameRule[]) => save(prev => ({ ...prev, rules }));
+  const setStripWords = (stripWords: string[]) => save(prev => ({ ...prev, stripWords }));
+  const setStripParams = (stripParams: string[]) => save(prev => ({ ...prev, stripParams }));
+
+  return { config, merge, split, setAlias, removeAlias, removeSplit, setRules, setStripWords, setStripParams };
+};
@@ -0,0 +1,30 @@
+import { useEffect, useMemo, useState } from 'react';
+import { ClientNetwork, Isp } from '../types';
+import { detectIpv6 } from '../utils/checker';
+import { loadSetting, saveSetting } from '../utils/storage';
+
+/**
+ * What this client can reach: IPv6 connectivity is detected on load, the
+ * carrier is picked by the user (there is no reliable way to tell it here).
+ */
+export const useNetwork = () => {
+  const [ipv6, setIpv6] = useState<boolean | null>(null);
+  const [isp, setIspState] = useState<Isp | null>(() => loadSetting('network.isp', null));
+
+  useEffect(() => {
+    let cancelled = false;
+    detectIpv6().then(available => {
+      if (!cancelled) setIpv6(available);
+    });
+    return () => { cancelled = true; };
+  }, []);
+
+  const setIsp = (next: Isp | null) => {
+    setIspState(next);
+    saveSetting('network.isp', next);
+  };
+
+  const client: ClientNetwork = useMemo(() => ({ ipv6, isp }), [ipv6, isp]);
+
+  return { client, setIsp };
+};
@@ -0,0 +1,210 @@
+import { RefObject, useEffect, useRef, useState } from 'react';
+import { Source, Timeshift } from '../types';
+import { resolvePlaybackUrl } from '../utils/checker';
+import { attachStream, trackPlayback, unsupportedReason, StreamSession, PlaybackTracker } from '../utils/playback';
+import { detectStreamType, isPlayable, streamTypeOf } from '../utils/streamType';
+import { canCatchup, catchupUrl } from '../utils/catchup';
+import { PLAYBACK_START_TIMEOUT_MS, PLAYBACK_STALL_TIMEOUT_MS } from '../constants';
+
+interface PlaybackOptions {
+  channelId: string;
+  sources: Source[]; // The channel's ranked sources (live, so statuses stay current)
+  startSourceId?: string; // Defaults to the first (best) source
+  timeshift?: Timeshift; // Play this window of the recording instead of live, on sources with catch-up
+  onSourceFailed?: (source: Source, reason: string) => void;
+  onSourcePlaying?: (source: Source) => void;
+}
+
+/**
+ * Plays a channel into a video element and fails over through its sources:
+ * a fatal error or a stall moves on to the next candidate unless the current
+ * one is pinned. Sources the browser can't play (RTMP, P2P...) are left out,
+ * and so are sources without catch-up while a timeshift is playing.
+ * Every caller gets its own player engine, destroyed on source or channel
+ * change and unmount.
+ */
+export const usePlayback = (
+  videoRef: RefObject<HTMLVideoElement | null>,
+  { channelId, sources, startSourceId, timeshift, onSourceFailed, onSourcePlaying }: PlaybackOptions
+) => {
+  const sessionRef = useRef<StreamSession | null>(null);
+  const trackerRef = useRef<PlaybackTracker | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const runKey = `${channelId}:${startSourceId ?? ''}:${timeshift?.start ?? 'live'}`;
+
+  // Candidate order is fixed when playback starts, re-ranking must not shuffle it
+  const startRun = () => {
+    const ids = sources
+      .filter(s => isPlayable(s) && (!timeshift || canCatchup(s, timeshift.start)))
+      .map(s => s.id);
+    const start = startSourceId ? Math.max(0, ids.indexOf(startSourceId)) : 0;
+    return {
+      key: runKey,
+      queue: [...ids.slice(start), ...ids.slice(0, start)],
+      failed: new Set<string>(),
+      startedAt: Date.now() // Replay URLs are built against this, so they stay put across renders
+    };
+  };
+  const [run, setRun] = useState(startRun);
+  const [position, setPosition] = useState(0);
+  const [pinned, setPinned] = useState(false);
+  const [attempt, setAttempt] = useState(0); // bumped to retry the same source
+
+  // Zapping (or timeshifting) starts over but keeps the video element (and picture-in-picture)
+  if (run.key !== runKey) {
+    setRun(startRun());
+    setPosition(0);
+    setPinned(false);
+  }
+  const { queue, failed, startedAt } = run;
+
+  const source = sources.find(s => s.id === queue[position]);
+  const url = source && (timeshift ? catchupUrl(source, timeshift, startedAt) : source.url);
+
+  const advance = () => {
+    const next = queue.findIndex((id, i) => i > position && !failed.has(id) && sources.some(s => s.id === id));
+    const wrapped = next === -1
+      ? queue.findIndex(id => !failed.has(id) && sources.some(s => s.id === id))
+      : next;
+    if (wrapped === -1 || wrapped === position) {
+      setError('所有信号源均无法播放');
+      setLoading(false);
+      return;
+    }
+    setPosition(wrapped);
+  };
+
+  // Playback callbacks outlive the render that created them
+  const latest = useRef({ pinned, advance, onSourceFailed, onSourcePlaying });
+  latest.current = { pinned, advance, onSourceFailed, onSourcePlaying };
+
+  const skip = () => {
+    if (source) failed.add(source.id);
+    setPinned(false);
+    advance();
+  };
+
+  const stopSession = () => {
+    trackerRef.current?.stop();
+    trackerRef.current = null;
+    sessionRef.current?.destroy();
+    sessionRef.current = null;
+  };
+
+  const retry = () => {
+    failed.clear();
+    setAttempt(a => a + 1);
+  };
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || !source || !url) return;
+
+    setError(null);
+    setLoading(true);
+    let cancelled = false;
+    let done = false; // failed over (or gave up), ignore further events
+    let started = false;
+    let watchdog: ReturnType<typeof setTimeout> | undefined;
+
+    const arm = (ms: number, reason: string) => {
+      clearTimeout(watchdog);
+      watchdog = setTimeout(() => fail(reason), ms);
+    };
+
+    const fail = (reason: string) => {
+      if (cancelled || done) return;
+      done = true;
+      clearTimeout(watchdog);
+      stopSession();
+      console.warn(`Source failed (${reason})`, url);
+
+      const { pinned, advance, onSourceFailed } = latest.current;
+      failed.add(source.id);
+      onSourceFailed?.(source, reason);
+      if (pinned) {
+        setError(`播放失败: ${reason}`);
+        setLoading(false);
+      } else {
+        advance();
+      }
+    };
+
+    const handlePlaying = () => {
+      clearTimeout(watchdog);
+      setLoading(false);
+      if (!started) {
+        started = true;
+        latest.current.onSourcePlaying?.(source);
+      }
+    };
+
+    // Buffering only counts as a stall once it lasts long enough
+    const handleWaiting = () => arm(PLAYBACK_STALL_TIMEOUT_MS, '卡顿超时');
+    const handleProgress = () => {
+      if (!video.paused && video.readyState >= 3) clearTimeout(watchdog);
+    };
+
+    video.addEventListener('playing', handlePlaying);
+    video.addEventListener('waiting', handleWaiting);
+    video.addEventListener('timeupdate', handleProgress);
+
+    const start = async (src: string) => {
+      if (cancelled) return;
+      arm(PLAYBACK_START_TIMEOUT_MS, '启动超时');
+
+      stopSession();
+      // A replay URL may be served differently from the live one
+      const replayType = timeshift ? detectStreamType(url) : 'unknown';
+      const type = replayType !== 'unknown' ? replayType : streamTypeOf(source);
+      const session = await attachStream(video, src, type, fail);
+      // The engine may have been loaded after the source changed
+      if (cancelled || done) {
+        session?.destroy();
+        return;
+      }
+      if (!session) {
+        done = true;
+        clearTimeout(watchdog);
+        setError(unsupportedReason(type));
+        setLoading(false);
+        return;
+      }
+      sessionRef.current = session;
+      trackerRef.current = trackPlayback(video, session.hls);
+    };
+
+    // Sources with custom headers go through the probe service relay; a failed
+    // relay lookup or player load moves on now instead of waiting for the watchdog
+    resolvePlaybackUrl(url, source.httpOptions)
+      .then(start)
+      .catch(e => fail(e instanceof Error ? e.message : '启动失败'));
+
+    return () => {
+      cancelled = true;
+      clearTimeout(watchdog);
+      video.removeEventListener('playing', handlePlaying);
+      video.removeEventListener('waiting', handleWaiting);
+      video.removeEventListener('timeupdate', handleProgress);
+      stopSession();
+    };
+  }, [url, source?.httpOptions?.userAgent, source?.httpOptions?.referrer, attempt, run]);
+
+  // Nothing in the channel can be played in a browser
+  const empty = queue.length === 0;
+
+  return {
+    source,
+    position,
+    queueLength: queue.length,
+    error: empty ? (timeshift ? '没有支持回看的信号源' : '没有可在浏览器中播放的信号源') : error,
+    loading: loading && !empty,
+    pinned,
+    setPinned,
+    skip,
+    retry,
+    trackerRef
+  };
+};
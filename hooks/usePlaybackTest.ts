@@ -0,0 +1,34 @@
+import { useRef, useState } from 'react';
+import { Source } from '../types';
+import { testPlayback, PlaybackTestResult } from '../utils/playback';
+import { isPlayable } from '../utils/streamType';
+
+/**
+ * Queue of deep playback tests. They run one at a time, since every test
+ * decodes video and several at once would skew each other's numbers.
+ */
+export const usePlaybackTest = (onResult: (channelId: string, source: Source, result: PlaybackTestResult) => void) => {
+  const [testing, setTesting] = useState<Set<string>>(new Set()); // Queued or running source ids
+  const queue = useRef<Promise<void>>(Promise.resolve());
+  const latest = useRef(onResult);
+  latest.current = onResult;
+
+  const run = (channelId: string, sources: Source[]) => {
+    const fresh = sources.filter(s => isPlayable(s) && !testing.has(s.id));
+    if (fresh.length === 0) return;
+    setTesting(prev => new Set([...prev, ...fresh.map(s => s.id)]));
+    fresh.forEach(source => {
+      queue.current = queue.current.then(async () => {
+        const result = await testPlayback(source).catch((e): PlaybackTestResult => ({ ok: false, reason: String(e) }));
+        latest.current(channelId, source, result);
+        setTesting(prev => {
+          const next = new Set(prev);
+          next.delete(source.id);
+          return next;
+        });
+      });
+    });
+  };
+
+  return { testing, run };
+};
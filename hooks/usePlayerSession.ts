@@ -0,0 +1,67 @@
+import { useState } from 'react';
+import { Channel, Timeshift } from '../types';
+
+export type PlayerMode = 'mini' | 'full';
+
+export interface PlayerSession {
+  channelId: string;
+  sourceId?: string; // Unset: start from the channel's best source
+  previousId: string | null; // For the last-channel toggle
+  mode: PlayerMode;
+  timeshift?: Timeshift; // Replaying a programme or seeking back; unset while live
+}
+
+/**
+ * The channel number shown and typed in the full player: tvg-chno when the
+ * playlist has one, otherwise the position in the current list
+ */
+export const channelNumber = (channel: Channel, list: Channel[]): string => {
+  if (channel.chno) return channel.chno;
+  const index = list.findIndex(c => c.id === channel.id);
+  return index === -1 ? '' : String(index + 1);
+};
+
+/**
+ * What is playing and how: tracks the channel (not just a URL), so the player
+ * can zap through the current list, jump by number and go back to the last channel
+ */
+export const usePlayerSession = () => {
+  const [session, setSession] = useState<PlayerSession | null>(null);
+
+  const play = (channelId: string, sourceId?: string) => setSession(prev => ({
+    channelId,
+    sourceId,
+    previousId: prev && prev.channelId !== channelId ? prev.channelId : prev?.previousId ?? null,
+    mode: prev?.mode ?? 'mini'
+  }));
+
+  // Next/previous channel in the list, wrapping around
+  const zap = (step: number, list: Channel[]) => {
+    if (!session || list.length === 0) return;
+    const index = list.findIndex(c => c.id === session.channelId);
+    const next = index === -1
+      ? (step > 0 ? 0 : list.length - 1)
+      : (index + step + list.length) % list.length;
+    play(list[next].id);
+  };
+
+  // Returns false when no channel has that number
+  const jump = (number: string, list: Channel[]): boolean => {
+    const target = list.find(c => c.chno === number) || list[parseInt(number, 10) - 1];
+    if (!target) return false;
+    play(target.id);
+    return true;
+  };
+
+  const last = () => {
+    if (session?.previousId) play(session.previousId);
+  };
+
+  // Changing channel always goes back to live, see play()
+  const shift = (timeshift: Timeshift | null) => setSession(prev => prev && { ...prev, timeshift: timeshift ?? undefined });
+
+  const setMode = (mode: PlayerMode) => setSession(prev => prev && { ...prev, mode });
+  const close = () => setSession(null);
+
+  return { session, play, zap, jump, last, shift, setMode, close };
+};
@@ -0,0 +1,20 @@
+import { useMemo, useRef } from 'react';
+
+/**
+ * Returns an object with the same functions, but whose identity never changes:
+ * each call goes to the latest version. Lets memoized rows skip re-rendering
+ * when only the parent's handler closures were recreated.
+ */
+export const useStableCallbacks = <T extends { [K in keyof T]: (...args: never[]) => unknown }>(callbacks: T): T => {
+  const latest = useRef(callbacks);
+  latest.current = callbacks;
+
+  return useMemo(() => {
+    const stable = {} as T;
+    (Object.keys(callbacks) as (keyof T)[]).forEach(key => {
+      stable[key] = ((...args: unknown[]) =>
+        (latest.current[key] as (...args: unknown[]) => unknown)(...args)) as T[keyof T];
+    });
+    return stable;
+  }, []);
+};
@@ -0,0 +1,129 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Subscription } from '../types';
+import { loadSetting, saveSetting } from '../utils/storage';
+import {
+  defaultSubscriptions,
+  deleteContent,
+  fetchSubscription,
+  generateSubscriptionId,
+  isDue,
+  saveContent
+} from '../utils/subscriptions';
+
+const SCHEDULER_INTERVAL_MS = 60 * 1000;
+
+export interface LoadedPlaylist {
+  subscriptionId: string;
+  name: string;
+  content: string;
+  category: string;
+}
+
+export type SubscriptionDraft = Omit<Subscription, 'id' | 'lastFetchedAt' | 'lastStatus' | 'lastError'>;
+
+/**
+ * Persisted playlist subscriptions plus the content most recently fetched for each.
+ * Subscriptions with a refresh interval are re-fetched in the background when due.
+ */
+export const useSubscriptions = () => {
+  const [subscriptions, setSubscriptions] = useState<Subscription[]>(() =>
+    loadSetting('subscriptions', defaultSubscriptions()));
+  const [contents, setContents] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState<Set<string>>(new Set());
+
+  // Latest list for async callbacks and the scheduler
+  const subsRef = useRef(subscriptions);
+  subsRef.current = subscriptions;
+
+  const persist = (next: Subscription[]) => {
+    subsRef.current = next;
+    setSubscriptions(next);
+    saveSetting('subscriptions', next);
+  };
+
+  const patch = (id: string, changes: Partial<Subscription>) => {
+    persist(subsRef.current.map(s => s.id === id ? { ...s, ...changes } : s));
+  };
+
+  const refresh = async (id: string) => {
+    const sub = subsRef.current.find(s => s.id === id);
+    if (!sub) return;
+    setRefreshing(prev => new Set(prev).add(id));
+    try {
+      const content = await fetchSubscription(sub);
+      setContents(prev => ({ ...prev, [id]: content }));
+      patch(id, { lastFetchedAt: Date.now(), lastStatus: 'ok', lastError: undefined });
+    } catch (e) {
+      console.error(`Failed to load ${sub.name}`, e);
+      patch(id, { lastFetchedAt: Date.now(), lastStatus: 'error', lastError: e instanceof Error ? e.message : String(e) });
+    } finally {
+      setRefreshing(prev => {
+        const next = new Set(prev);
+        next.delete(id);
+        return next;
+      });
+    }
+  };
+
+  const refreshAll = async () => {
+    await Promise.all(subsRef.current.filter(s => s.enabled).map(s => refresh(s.id)));
+  };
+
+  // Initial load
+  useEffect(() => {
+    refreshAll().finally(() => setLoading(false));
+  }, []);
+
+  // Background refresh for subscriptions with an interval
+  useEffect(() => {
+    const id = setInterval(() => {
+      const now = Date.now();
+      subsRef.current.filter(s => isDue(s, now)).forEach(s => refresh(s.id));
+    }, SCHEDULER_INTERVAL_MS);
+    return () => clearInterval(id);
+  }, []);
+
+  const add = async (draft: SubscriptionDraft, content?: string) => {
+    const sub: Subscription = { ...draft, id: generateSubscriptionId() };
+    if (content !== undefined) await saveContent(sub.id, content);
+    persist([...subsRef.current, sub]);
+    if (sub.enabled) await refresh(sub.id);
+  };
+
+  const update = async (id: string, changes: Partial<SubscriptionDraft>, content?: string) => {
+    if (content !== undefined) await saveContent(id, content);
+    patch(id, changes);
+    const sub = subsRef.current.find(s => s.id === id);
+    if (!sub) return;
+    if (!sub.enabled) {
+      setContents(prev => {
+        const next = { ...prev };
+        delete next[id];
+        return next;
+      });
+    } else if (content !== undefined || changes.url !== undefined || changes.enabled || !(id in contents)) {
+      await refresh(id);
+    }
+  };
+
+  const remove = async (id: string) => {
+    persist(subsRef.current.filter(s => s.id !== id));
+    setContents(prev => {
+      const next = { ...prev };
+      delete next[id];
+      return next;
+    });
+    await deleteContent(id).catch(() => {});
+  };
+
+  // Enabled subscriptions that have content, in list order. Only rebuilt when
+  // something that affects parsing changes, not on every status update.
+  const parseKey = subscriptions.map(s => `${s.id}:${s.enabled}:${s.category}:${s.name}`).join('|');
+  const playlists: LoadedPlaylist[] = useMemo(() => subscriptions
+    .filter(s => s.enabled && contents[s.id] !== undefined)
+    .map(s => ({ subscriptionId: s.id, name: s.name, content: contents[s.id], category: s.category })),
+  [contents, parseKey]);
+
+  return { subscriptions, playlists, loading, refreshing, refresh, refreshAll, add, update, remove };
+};
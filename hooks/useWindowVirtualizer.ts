@@ -0,0 +1,107 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+
+const OVERSCAN_PX = 800;
+
+/**
+ * Windowed rendering for a list that scrolls with the page. Row heights start
+ * from an estimate and are replaced by measured ones (ResizeObserver), so rows
+ * may change height freely, e.g. when a channel's source table is expanded.
+ */
+export const useWindowVirtualizer = (keys: string[], estimate: (index: number) => number) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const heights = useRef(new Map<string, number>());
+  const [version, setVersion] = useState(0); // bumped when a measured height changes
+  const [viewport, setViewport] = useState({ top: 0, height: typeof window === 'undefined' ? 0 : window.innerHeight });
+
+  // Viewport position relative to the top of the list
+  useEffect(() => {
+    let frame = 0;
+    const update = () => {
+      cancelAnimationFrame(frame);
+      frame = requestAnimationFrame(() => {
+        const el = containerRef.current;
+        if (!el) return;
+        const top = -el.getBoundingClientRect().top;
+        setViewport(prev => prev.top === top && prev.height === window.innerHeight ? prev : { top, height: window.innerHeight });
+      });
+    };
+    update();
+    window.addEventListener('scroll', update, { passive: true });
+    window.addEventListener('resize', update);
+    // Panels opening above the list move it without any scrolling
+    const observer = new ResizeObserver(update);
+    observer.observe(document.body);
+    return () => {
+      cancelAnimationFrame(frame);
+      window.removeEventListener('scroll', update);
+      window.removeEventListener('resize', update);
+      observer.disconnect();
+    };
+  }, []);
+
+  // One observer for every rendered row; rows carry their key in data-key
+  const pending = useRef(0);
+  const observer = useMemo(() => typeof ResizeObserver === 'undefined' ? null : new ResizeObserver((entries, self) => {
+    let changed = false;
+    entries.forEach(entry => {
+      const el = entry.target as HTMLElement;
+      const key = el.dataset.key;
+      if (!key || !el.isConnected) {
+        self.unobserve(el);
+        return;
+      }
+      const height = el.offsetHeight;
+      if (height > 0 && heights.current.get(key) !== height) {
+        heights.current.set(key, height);
+        changed = true;
+      }
+    });
+    if (changed) {
+      cancelAnimationFrame(pending.current);
+      pending.current = requestAnimationFrame(() => setVersion(v => v + 1));
+    }
+  }), []);
+
+  useEffect(() => () => {
+    observer?.disconnect();
+    cancelAnimationFrame(pending.current);
+  }, [observer]);
+
+  const measureRef = useCallback((el: HTMLElement | null) => {
+    if (el) observer?.observe(el);
+  }, [observer]);
+
+  // offsets[i] = top of row i; offsets[keys.length] = total height
+  const offsets = useMemo(() => {
+    const result = new Array<number>(keys.length + 1);
+    result[0] = 0;
+    for (let i = 0; i < keys.length; i++) {
+      result[i + 1] = result[i] + (heights.current.get(keys[i]) ?? estimate(i));
+    }
+    return result;
+  }, [keys, version]);
+
+  // First row whose bottom edge is below `y`
+  const findIndex = (y: number) => {
+    let lo = 0;
+    let hi = keys.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (offsets[mid + 1] <= y) lo = mid + 1;
+      else hi = mid;
+    }
+    return lo;
+  };
+
+  const start = findIndex(viewport.top - OVERSCAN_PX);
+  const end = Math.min(keys.length, findIndex(viewport.top + viewport.height + OVERSCAN_PX) + 1);
+
+  return {
+    containerRef,
+    measureRef,
+    start,
+    end,
+    paddingTop: offsets[start],
+    paddingBottom: offsets[keys.length] - offsets[end]
+  };
+};
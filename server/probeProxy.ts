@@ -0,0 +1,162 @@
+import type { Connect, Plugin } from 'vite';
+import type { ServerResponse } from 'http';
+import { Readable, pipeline } from 'stream';
+import { lookup } from 'dns/promises';
+import { isIP } from 'net';
+import type { ReadableStream as NodeReadableStream } from 'stream/web';
+import { HttpOptions } from '../types';
+import { PROBE_ENDPOINT, TIMEOUT_MS } from '../constants';
+import { probeUrl, requestHeaders } from '../utils/probe';
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json; charset=utf-8');
+  res.setHeader('Cache-Control', 'no-store');
+  res.end(JSON.stringify(body));
+};
+
+const readHttpOptions = (params: URLSearchParams): HttpOptions => ({
+  userAgent: params.get('ua') || undefined,
+  referrer: params.get('referer') || undefined
+});
+
+const relayUrl = (target: string, http: HttpOptions) => {
+  const params = new URLSearchParams({ url: target });
+  if (http.userAgent) params.set('ua', http.userAgent);
+  if (http.referrer) params.set('referer', http.referrer);
+  return `${PROBE_ENDPOINT}/relay?${params}`;
+};
+
+// The service fetches whatever it is asked to, so other machines on the network
+// are turned away unless IPTV_PROBE_ALLOW_LAN=1 is set
+const isLoopback = (address?: string) =>
+  !!address && (address === '::1' || address.startsWith('127.') || address.startsWith('::ffff:127.'));
+
+/**
+ * Whether the host has IPv6 addresses only, so IPv4-only clients can't reach it.
+ * Address literals are classified from the URL alone.
+ */
+const resolvesToIpv6Only = async (target: string): Promise<boolean> => {
+  const { hostname } = new URL(target);
+  if (hostname.startsWith('[') || isIP(hostname)) return false;
+  try {
+    const addresses = await lookup(hostname, { all: true });
+    return addresses.length > 0 && addresses.every(a => a.family === 6);
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Points every URI of an HLS playlist (segments, variants, keys, maps) back at the relay,
+ * so follow-up requests carry the same headers.
+ */
+const rewritePlaylist = (text: string, baseUrl: string, http: HttpOptions) => {
+  const resolve = (uri: string) => {
+    try {
+      return relayUrl(new URL(uri, baseUrl).href, http);
+    } catch (e) {
+      return uri;
+    }
+  };
+  return text
+    .split('\n')
+    .map(line => {
+      const trimmed = line.trim();
+      if (!trimmed) return line;
+      if (trimmed.startsWith('#')) return line.replace(/URI="([^"]+)"/g, (_, uri) => `URI="${resolve(uri)}"`);
+      return resolve(trimmed);
+    })
+    .join('\n');
+};
+
+/**
+ * Streams a source through Node with its playlist-declared User-Agent/Referer,
+ * which browsers aren't allowed to set themselves. The upstream request is
+ * aborted as soon as the player goes away, so live streams aren't left open.
+ */
+const relay = async (target: string, http: HttpOptions, res: ServerResponse) => {
+  const controller = new AbortController();
+  res.on('close', () => controller.abort());
+  // Covers the headers and, for playlists, the body; media bodies stream for as long as the player reads
+  const timer = setTimeout(() => controller.abort(), TIMEOUT_MS);
+  try {
+    const upstream = await fetch(target, { headers: requestHeaders(http), redirect: 'follow', signal: controller.signal });
+
+    const contentType = upstream.headers.get('content-type') || '';
+    res.statusCode = upstream.status;
+    res.setHeader('Cache-Control', 'no-store');
+    if (contentType) res.setHeader('Content-Type', contentType);
+
+    const isPlaylist = /mpegurl/i.test(contentType) || /\.m3u8?(\?|$)/i.test(upstream.url || target);
+    if (isPlaylist && upstream.ok) {
+      const text = await upstream.text();
+      return res.end(rewritePlaylist(text, upstream.url || target, http));
+    }
+    if (!upstream.body) return res.end();
+    // An upstream reset mid-stream must only end this response, not the dev server
+    pipeline(Readable.fromWeb(upstream.body as NodeReadableStream), res, err => {
+      if (err && !controller.signal.aborted) console.warn('Relay stream failed', target, err.message);
+    });
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+/**
+ * Connect middleware mounted at PROBE_ENDPOINT.
+ *   GET /health                         -> { ok: true }
+ *   GET /?url=<stream>[&deep=1]         -> ProbeResult (without `via`), plus `ipv6Only` from DNS
+ *   GET /relay?url=<stream>             -> the stream itself, fetched server-side
+ * `ua` and `referer` params are forwarded as request headers.
+ * Fetching from Node sidesteps CORS, so failures here are real failures.
+ * Only loopback clients are served (see isLoopback).
+ */
+export const probeMiddleware: Connect.NextHandleFunction = async (req, res, next) => {
+  if (req.method !== 'GET') return next();
+  if (!isLoopback(req.socket.remoteAddress) && process.env.IPTV_PROBE_ALLOW_LAN !== '1') {
+    return sendJson(res, 403, { error: 'The probe service only answers requests from this machine' });
+  }
+
+  const { pathname, searchParams } = new URL(req.url || '/', 'http://localhost');
+  if (pathname === '/health') {
+    return sendJson(res, 200, { ok: true });
+  }
+  if (pathname !== '/' && pathname !== '/relay') return next();
+
+  const target = searchParams.get('url');
+  if (!target || !/^https?:\/\//i.test(target)) {
+    return sendJson(res, 400, { error: 'Missing or unsupported url parameter' });
+  }
+  const http = readHttpOptions(searchParams);
+
+  try {
+    if (pathname === '/relay') {
+      return await relay(target, http, res);
+    }
+    const [result, ipv6Only] = await Promise.all([
+      probeUrl(target, {
+        headers: requestHeaders(http),
+        deep: searchParams.get('deep') === '1'
+      }),
+      resolvesToIpv6Only(target)
+    ]);
+    sendJson(res, 200, ipv6Only ? { ...result, ipv6Only } : result);
+  } catch (e) {
+    if (res.headersSent) return res.end();
+    sendJson(res, 502, { error: e instanceof Error ? e.message : String(e) });
+  }
+};
+
+/**
+ * Vite plugin that serves the probe service from both `vite` and `vite preview`
+ */
+export const probeProxyPlugin = (): Plugin => ({
+  name: 'iptv-probe-proxy',
+  configureServer(server) {
+    server.middlewares.use(PROBE_ENDPOINT, probeMiddleware);
+  },
+  configurePreviewServer(server) {
+    server.middlewares.use(PROBE_ENDPOINT, probeMiddleware);
+  }
+});
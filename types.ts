@@ -1,16 +1,117 @@
+export interface CatchupInfo {
+  mode: string; // 'default' | 'append' | 'shift' | 'flussonic' ... as declared by `catchup`
+  source?: string; // `catchup-source` template
+  days?: number;
+}
+
+// A window of a channel's recording to play instead of the live stream (epoch ms)
+export interface Timeshift {
+  start: number;
+  end: number; // The programme's end, or "now" when seeking back on a live channel
+  title?: string; // Programme being replayed
+}
+
+// Per-source request headers from #EXTVLCOPT / EXTINF attributes
+export interface HttpOptions {
+  userAgent?: string;
+  referrer?: string;
+}
+
+// How a source is delivered; decides which player engine (if any) can play it
+export type StreamType = 'hls' | 'flv' | 'mpegts' | 'dash' | 'mp4' | 'rtmp' | 'rtsp' | 'udp' | 'p2p' | 'unknown';
+
+export type Isp = 'telecom' | 'unicom' | 'mobile';
+
+// Where a source sits on the network (see utils/network.ts)
+export interface SourceNetwork {
+  ipv6: boolean; // IPv6 literal host, or a host that turned out to resolve to IPv6 only
+  isp?: Isp; // Carrier hinted by the listed names or the host
+  local?: 'lan' | 'multicast'; // Private address, or a multicast group (directly or via udpxy)
+}
+
+// What this client can reach; null while not yet known
+export interface ClientNetwork {
+  ipv6: boolean | null;
+  isp: Isp | null; // Chosen by the user, sources on the same carrier are preferred
+}
+
+// Where a source was listed; a URL found in several playlists has one per listing
+export interface SourceOrigin {
+  playlist: string; // Subscription name
+  subscriptionId?: string; // Unset outside the app (CLI, ad-hoc parses)
+  rawName: string; // Channel name as the playlist wrote it
+  line?: number; // 1-based line of the URL; unset for JSON imports
+}
+
 export interface Source {
   id: string;
   url: string;
-  status: 'idle' | 'checking' | 'online' | 'offline' | 'error';
+  aliases?: string[]; // Other spellings of the same stream that were folded into this source (see utils/urls.ts)
+  origins: SourceOrigin[];
+  status: 'idle' | 'checking' | 'online' | 'degraded' | 'offline' | 'error';
   latency: number | null; // in ms
   resolution?: string;
+  finalUrl?: string; // URL after redirects, when it differs from `url`
+  httpStatus?: number;
+  failedStage?: ProbeStage; // Set by deep checks when a later stage fails
+  catchup?: CatchupInfo;
+  httpOptions?: HttpOptions;
+  reliability?: SourceReliability; // From persisted check history
+  checkedAt?: number; // When `status` was last determined
+  quality?: PlaybackQuality; // From the last deep (playback) test
+  streamType?: StreamType; // Detected by a check; before that, guessed from the URL (see streamTypeOf)
+  sharedWith?: string[]; // Other channels listing the same stream, likely a mislabel
+  network?: SourceNetwork;
+}
+
+// What the player measured while actually playing a source
+export interface PlaybackMetrics {
+  ttff: number | null; // Time to first frame, in ms
+  width: number; // Decoded video size
+  height: number;
+  fps: number | null;
+  bitrate: number | null; // Declared bitrate of the current level, bps
+  level: number | null; // Current level index (HLS variants)
+  levels: number;
+  bufferLength: number; // Seconds buffered ahead of the playhead
+  droppedFrames: number;
+  totalFrames: number;
+  stalls: number; // Rebuffering events after playback started
+  stallMs: number;
+  throughput: number | null; // Segment download speed, bps
+}
+
+export interface PlaybackQuality extends PlaybackMetrics {
+  testedAt: number;
+  duration: number; // Seconds played during the test
+}
+
+// One stored probe outcome
+export interface ProbeRecord {
+  ts: number;
+  status: 'online' | 'degraded' | 'offline' | 'error';
+  latency: number | null;
+  resolution?: string;
+  quality?: PlaybackQuality; // Deep tests only
+}
+
+export interface SourceReliability {
+  samples: number; // Conclusive checks ('error' is excluded as it may just be CORS)
+  uptime: number | null; // 0..1 share of conclusive checks that were online
+  p50: number | null; // Latency percentiles over online checks, in ms
+  p95: number | null;
+  lastOnline: number | null;
 }
 
 export interface Channel {
   id: string;
   name: string;
   group: string; // e.g., "CCTV", "卫视", "Movie"
-  category: 'China' | 'International' | 'Other';
+  category: string; // From the subscription, e.g. 'China', 'International' or a user tag
+  tvgId?: string;
+  logo?: string;
+  chno?: string; // tvg-chno, kept as text (some playlists use "1.1")
+  rawNames: string[]; // Every distinct playlist name merged into this channel
   sources: Source[];
   bestSource?: Source; // The currently selected "best" source based on latency/status
 }
@@ -21,9 +122,150 @@ export interface PlaylistPreset {
   category: 'China' | 'International';
 }
 
+// A user-managed playlist: fetched from a URL, or pasted/uploaded content
+export interface Subscription {
+  id: string;
+  name: string;
+  kind: 'url' | 'text' | 'file';
+  url?: string; // kind === 'url'
+  fileName?: string; // kind === 'file'; content itself lives in IndexedDB
+  category: string;
+  enabled: boolean;
+  refreshMinutes: number; // 0 = only on load / manual refresh
+  lastFetchedAt?: number;
+  lastStatus?: 'ok' | 'error';
+  lastError?: string;
+}
+
+// Per-source result of one check run
+export interface CheckOutcome {
+  channelId: string;
+  sourceId: string;
+  status: ProbeResult['status'];
+}
+
+// One source's result in a "检测全部" run, with the context a report groups by
+export interface CheckRunEntry {
+  sourceId: string;
+  channelId: string;
+  channel: string; // Channel name at the time of the run
+  group: string;
+  playlists: string[]; // Every subscription that lists the source
+  url: string;
+  status: ProbeResult['status'];
+  latency: number | null;
+}
+
+export interface CheckRun {
+  id: string;
+  startedAt: number;
+  finishedAt: number;
+  cancelled: boolean; // Stopped before every source was checked
+  entries: CheckRunEntry[];
+}
+
 export interface StreamStats {
   totalChannels: number;
   totalSources: number;
   onlineSources: number;
   avgLatency: number;
 }
+
+export interface ManifestInfo {
+  isHls: boolean;
+  isMaster: boolean; // Contains #EXT-X-STREAM-INF variants
+  variantCount: number;
+}
+
+// Deep HLS validation walks: manifest -> (variant) media playlist -> segment.
+// A 'degraded' source answered the manifest but failed a later stage.
+export type ProbeStage = 'manifest' | 'playlist' | 'segment';
+
+export interface ProbeResult {
+  status: 'online' | 'degraded' | 'offline' | 'error';
+  latency: number | null; // in ms
+  resolution?: string;
+  httpStatus?: number;
+  finalUrl?: string;
+  contentType?: string;
+  manifest?: ManifestInfo;
+  failedStage?: ProbeStage;
+  segmentUrl?: string; // The segment downloaded by a deep check
+  streamType?: StreamType;
+  ipv6Only?: boolean; // The host has no IPv4 address (only known to the probe service)
+  error?: string;
+  via: 'proxy' | 'direct';
+}
+
+export interface EpgProgramme {
+  start: number; // epoch ms
+  stop: number;
+  title: string;
+  desc?: string;
+}
+
+export interface EpgNowNext {
+  now?: EpgProgramme;
+  next?: EpgProgramme;
+}
+
+export interface MonitorSettings {
+  enabled: boolean;
+  intervalMinutes: number;
+  concurrency: number;
+  scope: 'all' | 'filtered' | 'favourites';
+  pauseWhenHidden: boolean;
+  browserNotifications: boolean;
+}
+
+export interface MonitorAlert {
+  id: string;
+  channelId: string;
+  channelName: string;
+  kind: 'down' | 'up'; // Lost its last working source / came back
+  ts: number;
+}
+
+// User regex rule, applied to the upper-cased name after the built-in ones
+export interface NameRule {
+  id: string;
+  pattern: string;
+  replacement: string;
+  enabled: boolean;
+}
+
+export interface NamingConfig {
+  aliases: Record<string, string>; // Upper-cased raw name -> canonical channel name
+  splits: string[]; // Upper-cased raw names kept as their own channel
+  rules: NameRule[];
+  stripWords: string[]; // Quality/carrier tags removed as whole words
+  stripParams: string[]; // Query parameters ignored when comparing source URLs (tokens, timestamps)
+}
+
+// Channels are referenced by id, which is derived from the normalized name
+export interface ChannelList {
+  id: string;
+  name: string;
+  channelIds: string[]; // In display order
+}
+
+export interface FavouritesState {
+  starred: string[]; // Channel ids, in display order
+  groups: ChannelList[];
+  names?: Record<string, string[]>; // Raw playlist names of each listed channel, to follow it through renames
+}
+
+// Saved search box query (see utils/filter.ts)
+export interface FilterPreset {
+  name: string;
+  query: string;
+}
+
+// Wall of players for watching several channels at once
+export type MultiViewLayout = 1 | 4 | 9;
+
+export interface MultiViewState {
+  layout: MultiViewLayout;
+  tiles: (string | null)[]; // Channel id per tile; all 9 slots are kept, so shrinking the grid loses nothing
+  audio: number | null; // The one tile that is unmuted
+}
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { Source } from '../types';
+import { catchupUrl, expandCatchupTemplate } from './catchup';
+
+// Local times, so the expected dates hold in any time zone
+const start = new Date(2024, 0, 15, 20, 30, 5).getTime();
+const end = new Date(2024, 0, 15, 21, 0, 5).getTime();
+const now = new Date(2024, 0, 16, 8, 0, 0).getTime();
+const times = { start, end, now };
+const unix = (ms: number) => String(Math.floor(ms / 1000));
+
+const source = (url: string, mode: string, template?: string): Source => ({
+  id: 'test',
+  url,
+  origins: [],
+  status: 'idle',
+  latency: null,
+  catchup: { mode, source: template }
+});
+
+describe('expandCatchupTemplate', () => {
+  it.each([
+    ['${(b)yyyyMMddHHmmss}-${(e)yyyyMMddHHmmss}', '20240115203005-20240115210005'],
+    ['${(b)yyyy-MM-dd HH:mm}', '2024-01-15 20:30'],
+    ['{utc}', unix(start)],
+    ['${start}/${end}', `${unix(start)}/${unix(end)}`],
+    ['{lutc}|${now}|${timestamp}', `${unix(now)}|${unix(now)}|${unix(now)}`],
+    ['{utc:YmdHMS}', '20240115203005'],
+    ['{utcend:%Y%m%d%H%M%S}', '20240115210005'],
+    ['{duration}', '1800'],
+    ['{duration:60}', '30'],
+    ['{offset:60}', String(Math.floor((now - start) / 60000))],
+    ['{Y}/{m}/{d}/{H}{M}{S}', '2024/01/15/203005'],
+    ['{unknown}', '{unknown}']
+  ])('%s', (template, expected) => {
+    expect(expandCatchupTemplate(template, times)).toBe(expected);
+  });
+});
+
+describe('catchupUrl', () => {
+  const window = { start, end };
+
+  it.each([
+    ['default with a full URL', source('http://a.tv/live.m3u8', 'default', 'http://b.tv/replay.m3u8?start={utc}&end={utcend}'),
+      `http://b.tv/replay.m3u8?start=${unix(start)}&end=${unix(end)}`],
+    ['default with a query only', source('http://a.tv/live.m3u8', 'default', '?playseek=${(b)yyyyMMddHHmmss}-${(e)yyyyMMddHHmmss}'),
+      'http://a.tv/live.m3u8?playseek=20240115203005-20240115210005'],
+    ['default on a live URL that has a query', source('http://a.tv/live.m3u8?id=1', 'default', '?playseek={utc:YmdHMS}'),
+      'http://a.tv/live.m3u8?id=1&playseek=20240115203005'],
+    ['append', source('http://a.tv/live.m3u8', 'append', '?begin={utc}&dur={duration}'),
+      `http://a.tv/live.m3u8?begin=${unix(start)}&dur=1800`],
+    ['append on a live URL that has a query', source('http://a.tv/live.m3u8?token=x', 'append', '&begin={utc}'),
+      `http://a.tv/live.m3u8?token=x&begin=${unix(start)}`],
+    ['shift', source('http://a.tv/live.m3u8', 'shift'),
+      `http://a.tv/live.m3u8?utc=${unix(start)}&lutc=${unix(now)}`],
+    ['timeshift on a live URL that has a query', source('http://a.tv/live.m3u8?id=1', 'timeshift'),
+      `http://a.tv/live.m3u8?id=1&utc=${unix(start)}&lutc=${unix(now)}`],
+    ['flussonic HLS', source('http://a.tv/ch1/index.m3u8?token=x', 'flussonic'),
+      `http://a.tv/ch1/index-${unix(start)}-1800.m3u8?token=x`],
+    ['flussonic MPEG-TS', source('http://a.tv/ch1/mpegts?token=x', 'fs'),
+      `http://a.tv/ch1/timeshift_abs-${unix(start)}.ts?token=x`]
+  ])('%s', (_, src, expected) => {
+    expect(catchupUrl(src, window, now)).toBe(expected);
+  });
+
+  it('ends a window that is still running at now', () => {
+    const running = source('http://a.tv/live.m3u8', 'append', '?dur={duration}');
+    expect(catchupUrl(running, { start, end: now + 3600000 }, now)).toBe(`http://a.tv/live.m3u8?dur=${(now - start) / 1000}`);
+  });
+
+  it.each([
+    ['no catch-up', { ...source('http://a.tv/live.m3u8', 'default'), catchup: undefined }],
+    ['default without a template', source('http://a.tv/live.m3u8', 'default')],
+    ['append without a template', source('http://a.tv/live.m3u8', 'append')],
+    ['flussonic on an unknown URL', source('http://a.tv/live/stream', 'flussonic')],
+    ['an unknown mode', source('http://a.tv/live.m3u8', 'vod', '?t={utc}')]
+  ])('is null for %s', (_, src) => {
+    expect(catchupUrl(src, window, now)).toBeNull();
+  });
+});
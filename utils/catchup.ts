@@ -0,0 +1,134 @@
+import { Source, Timeshift } from '../types';
+import { CATCHUP_DEFAULT_DAYS, CATCHUP_MAX_DAYS } from '../constants';
+
+/**
+ * Catch-up (timeshift) URLs from the `catchup` / `catchup-source` attributes.
+ *
+ *   default    catchup-source is the whole replay URL
+ *   append     catchup-source is appended to the live URL
+ *   shift      "utc=<start>&lutc=<now>" is appended to the live URL, no template needed
+ *   flussonic  the live URL is rewritten to Flussonic's archive form
+ *
+ * Templates understand the placeholders players in the wild use:
+ * `${(b)yyyyMMddHHmmss}` / `${(e)...}` (programme begin / end), `{utc}` / `${start}`,
+ * `{utcend}` / `${end}`, `{lutc}` / `${now}` / `${timestamp}` (unix seconds, or
+ * formatted as in `{utc:YmdHMS}`), `{duration}`, `{offset}` (seconds, with an
+ * optional divider as in `{duration:60}`) and `{Y}{m}{d}{H}{M}{S}` for the start.
+ * Dates are formatted in local time, which is what playseek-style servers expect.
+ */
+
+export interface CatchupTimes {
+  start: number; // epoch ms
+  end: number;
+  now: number;
+}
+
+const pad = (n: number, length = 2) => String(n).padStart(length, '0');
+
+// Java-style (yyyyMMddHHmmss) or strftime-style (YmdHMS, %Y%m%d) date patterns
+const formatDate = (ms: number, pattern: string) => {
+  const d = new Date(ms);
+  const year = pad(d.getFullYear(), 4);
+  const month = pad(d.getMonth() + 1);
+  const day = pad(d.getDate());
+  const hours = pad(d.getHours());
+  const minutes = pad(d.getMinutes());
+  const seconds = pad(d.getSeconds());
+  const parts: Record<string, string> = {
+    yyyy: year, MM: month, dd: day, HH: hours, mm: minutes, ss: seconds,
+    Y: year, m: month, d: day, H: hours, M: minutes, S: seconds
+  };
+  return pattern.replace(/%?(yyyy|MM|dd|HH|mm|ss|[YmdHMS])/g, (_, token: string) => parts[token]);
+};
+
+const unixSeconds = (ms: number) => String(Math.floor(ms / 1000));
+
+const expandPlaceholder = (name: string, arg: string | undefined, { start, end, now }: CatchupTimes): string | null => {
+  const time = (ms: number) => arg ? formatDate(ms, arg) : unixSeconds(ms);
+  const divided = (seconds: number) => String(Math.floor(seconds / (arg ? Number(arg) || 1 : 1)));
+  switch (name) {
+    case 'utc':
+    case 'start': return time(start);
+    case 'utcend':
+    case 'end': return time(end);
+    case 'lutc':
+    case 'now':
+    case 'timestamp': return time(now);
+    case 'duration': return divided((end - start) / 1000);
+    case 'offset': return divided((now - start) / 1000);
+    case 'Y': case 'm': case 'd': case 'H': case 'M': case 'S': return formatDate(start, name);
+    default: return null;
+  }
+};
+
+/**
+ * Fills a catch-up template for one time window; unknown placeholders are left as they are
+ */
+export const expandCatchupTemplate = (template: string, times: CatchupTimes): string =>
+  template.replace(/\$?\{([^{}]+)\}/g, (match, body: string) => {
+    const range = body.match(/^\((b|e)\)(.+)$/);
+    if (range) return formatDate(range[1] === 'b' ? times.start : times.end, range[2]);
+    const [, name, arg] = body.match(/^(\w+)(?::(.+))?$/) || [];
+    return (name && expandPlaceholder(name, arg, times)) ?? match;
+  });
+
+// "?playseek=..." on a URL that already has a query continues it with "&"
+const appendQuery = (url: string, suffix: string) =>
+  /^[?&]/.test(suffix) ? `${url}${url.includes('?') ? '&' : '?'}${suffix.slice(1)}` : url + suffix;
+
+const flussonicUrl = (url: string, { start, end }: CatchupTimes) => {
+  const from = unixSeconds(start);
+  const duration = Math.floor((end - start) / 1000);
+  if (/\/(index|video|mono)\.m3u8/.test(url)) return url.replace(/\/(index|video|mono)\.m3u8/, `/$1-${from}-${duration}.m3u8`);
+  if (/\/mpegts(\?|$)/.test(url)) return url.replace(/\/mpegts(\?|$)/, `/timeshift_abs-${from}.ts$1`);
+  return null;
+};
+
+/**
+ * Replay URL for a window of a source's recording, or null when the source
+ * has no (usable) catch-up declaration
+ */
+export const catchupUrl = (source: Source, { start, end }: Timeshift, now = Date.now()): string | null => {
+  const { catchup } = source;
+  if (!catchup) return null;
+  const times = { start, end: Math.min(end, now), now };
+  const template = catchup.source ? expandCatchupTemplate(catchup.source, times) : null;
+
+  switch (catchup.mode) {
+    case 'default':
+      if (!template) return null;
+      // Some playlists declare "default" with just a query to append
+      return /^[a-z][\w+.-]*:\/\//i.test(template) ? template : appendQuery(source.url, template);
+    case 'append':
+      return template ? appendQuery(source.url, template) : null;
+    case 'shift':
+    case 'timeshift':
+      return appendQuery(source.url, `?utc=${unixSeconds(start)}&lutc=${unixSeconds(now)}`);
+    case 'flussonic':
+    case 'flussonic-hls':
+    case 'flussonic-ts':
+    case 'fs':
+      return flussonicUrl(source.url, times);
+    default:
+      return null;
+  }
+};
+
+// Only the mode, template and live URL decide whether a URL comes out
+const declaresCatchup = (source: Source) => catchupUrl(source, { start: 0, end: 0 }, 0) !== null;
+
+const replayDays = (source: Source) => source.catchup?.days ?? CATCHUP_DEFAULT_DAYS;
+
+/**
+ * Whether a source can replay from `start`: it declares catch-up and the
+ * recording is still within its `catchup-days` window
+ */
+export const canCatchup = (source: Source, start: number, now = Date.now()): boolean =>
+  start < now && start >= now - replayDays(source) * 24 * 60 * 60 * 1000 && declaresCatchup(source);
+
+/**
+ * How many days back any of the sources can replay (0 when none can),
+ * up to the days the guide keeps programmes for
+ */
+export const catchupDays = (sources: Source[]): number =>
+  Math.min(CATCHUP_MAX_DAYS, Math.max(0, ...sources.filter(declaresCatchup).map(replayDays)));
@@ -0,0 +1,110 @@
+import { HttpOptions, ProbeResult } from '../types';
+import { IPV6_TEST_URL, PROBE_ENDPOINT, TIMEOUT_MS } from '../constants';
+import { probeUrl } from './probe';
+import { detectStreamType } from './streamType';
+
+// null = not yet known; resolved once per page load
+let proxyAvailable: Promise<boolean> | null = null;
+
+/**
+ * Detects whether the local probe service (Vite middleware) is mounted
+ */
+export const detectProbeProxy = (): Promise<boolean> => {
+  if (!proxyAvailable) {
+    proxyAvailable = fetch(`${PROBE_ENDPOINT}/health`)
+      .then(async res => {
+        if (!res.ok) return false;
+        const body = await res.json().catch(() => null);
+        return body?.ok === true;
+      })
+      .catch(() => false);
+  }
+  return proxyAvailable;
+};
+
+let ipv6Available: Promise<boolean> | null = null;
+
+/**
+ * Detects whether this client has working IPv6, by fetching from a host that
+ * only has an IPv6 address. Resolved once per page load.
+ */
+export const detectIpv6 = (): Promise<boolean> => {
+  if (!ipv6Available) {
+    const controller = new AbortController();
+    const id = setTimeout(() => controller.abort(), TIMEOUT_MS);
+    ipv6Available = fetch(IPV6_TEST_URL, { cache: 'no-store', signal: controller.signal })
+      .then(res => res.ok)
+      .catch(() => false)
+      .finally(() => clearTimeout(id));
+  }
+  return ipv6Available;
+};
+
+export interface CheckOptions {
+  deep?: boolean; // Validate down to a media segment (see probeUrl)
+  httpOptions?: HttpOptions; // Only honoured by the probe service
+}
+
+const appendHttpOptions = (params: URLSearchParams, http?: HttpOptions) => {
+  if (http?.userAgent) params.set('ua', http.userAgent);
+  if (http?.referrer) params.set('referer', http.referrer);
+};
+
+const probeViaProxy = async (url: string, { deep, httpOptions }: CheckOptions): Promise<ProbeResult> => {
+  const params = new URLSearchParams({ url });
+  if (deep) params.set('deep', '1');
+  appendHttpOptions(params, httpOptions);
+
+  // Give the server its own timeout (per stage when deep) plus some slack for the round-trip
+  const controller = new AbortController();
+  const id = setTimeout(() => controller.abort(), TIMEOUT_MS * (deep ? 3 : 1) + 2000);
+  try {
+    const res = await fetch(`${PROBE_ENDPOINT}?${params}`, { signal: controller.signal });
+    if (!res.ok) throw new Error(`Probe service returned ${res.status}`);
+    const result = await res.json();
+    return { ...result, via: 'proxy' };
+  } finally {
+    clearTimeout(id);
+  }
+};
+
+/**
+ * Checks one source, through the probe service when it's running,
+ * otherwise directly from the browser (subject to CORS).
+ * RTMP, RTSP, multicast and P2P links can't be fetched over HTTP at all.
+ */
+export const checkSource = async (url: string, options: CheckOptions = {}): Promise<ProbeResult> => {
+  if (!/^https?:\/\//i.test(url)) {
+    return { status: 'error', latency: null, streamType: detectStreamType(url), error: 'Unsupported protocol', via: 'direct' };
+  }
+  if (await detectProbeProxy()) {
+    try {
+      return await probeViaProxy(url, options);
+    } catch (e) {
+      console.warn('Probe service failed, falling back to direct check', e);
+    }
+  }
+  const result = await probeUrl(url, { mode: 'cors', deep: options.deep });
+  return { ...result, via: 'direct' };
+};
+
+/**
+ * URL the player should load. Sources that need custom headers are relayed
+ * through the probe service when it's running; everything else plays directly.
+ */
+export const resolvePlaybackUrl = async (url: string, httpOptions?: HttpOptions): Promise<string> => {
+  if (!httpOptions?.userAgent && !httpOptions?.referrer) return url;
+  if (!/^https?:\/\//i.test(url) || !(await detectProbeProxy())) return url;
+  const params = new URLSearchParams({ url });
+  appendHttpOptions(params, httpOptions);
+  return `${PROBE_ENDPOINT}/relay?${params}`;
+};
+
+/**
+ * Absolute URL for fetching a cross-origin resource (e.g. an EPG guide):
+ * relayed through the probe service when it's running, otherwise direct.
+ */
+export const resolveFetchUrl = async (url: string): Promise<string> => {
+  if (!/^https?:\/\//i.test(url) || !(await detectProbeProxy())) return url;
+  return new URL(`${PROBE_ENDPOINT}/relay?${new URLSearchParams({ url })}`, location.href).href;
+};
@@ -0,0 +1,107 @@
+import { EpgNowNext, EpgProgramme, NamingConfig } from '../types';
+import { resolveFetchUrl } from './checker';
+
+// ---- Worker protocol (see workers/epg.worker.ts) ----
+
+export interface EpgSourceInput {
+  key: string; // Cache key: the guide URL, or "file:<name>"
+  label: string;
+  fetchUrl?: string;
+  file?: ArrayBuffer; // Uploaded guide; without it (and fetchUrl) only the cache is used
+}
+
+export interface EpgChannelRef {
+  id: string;
+  tvgId?: string;
+  name: string;
+}
+
+type EpgRequestBody =
+  | { type: 'load', sources: EpgSourceInput[], force?: boolean }
+  | { type: 'naming', config: NamingConfig }
+  | { type: 'nowNext', channels: EpgChannelRef[], at: number }
+  | { type: 'guide', tvgId?: string, name: string, from: number, to: number };
+
+export type EpgRequest = EpgRequestBody & { requestId: number };
+
+export type EpgResponse = { requestId: number } & (
+  | { type: 'loaded', channelCount: number, programmeCount: number, errors: string[] }
+  | { type: 'naming' }
+  | { type: 'nowNext', result: Record<string, EpgNowNext> }
+  | { type: 'guide', programmes: EpgProgramme[] }
+  | { type: 'error', error: string }
+);
+
+export interface EpgLoadResult {
+  channelCount: number;
+  programmeCount: number;
+  errors: string[];
+}
+
+// ---- Client ----
+
+let worker: Worker | null = null;
+let nextRequestId = 1;
+const pending = new Map<number, { resolve: (res: EpgResponse) => void, reject: (e: Error) => void }>();
+
+const getWorker = () => {
+  if (!worker) {
+    worker = new Worker(new URL('../workers/epg.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<EpgResponse>) => {
+      const entry = pending.get(event.data.requestId);
+      if (!entry) return;
+      pending.delete(event.data.requestId);
+      if (event.data.type === 'error') entry.reject(new Error(event.data.error));
+      else entry.resolve(event.data);
+    };
+  }
+  return worker;
+};
+
+const call = <T extends EpgResponse['type']>(body: EpgRequestBody, transfer: Transferable[] = []) =>
+  new Promise<Extract<EpgResponse, { type: T }>>((resolve, reject) => {
+    const requestId = nextRequestId++;
+    pending.set(requestId, { resolve: res => resolve(res as Extract<EpgResponse, { type: T }>), reject });
+    getWorker().postMessage({ ...body, requestId } as EpgRequest, transfer);
+  });
+
+/**
+ * (Re)builds the EPG index from guide URLs and/or uploaded XMLTV files (.xml or .xml.gz).
+ * Parsed guides are cached in IndexedDB; `force` bypasses the cache for URLs.
+ * Files passed without `data` are served from the cache of an earlier upload.
+ */
+export const loadEpg = async (
+  urls: string[],
+  files: { name: string, data?: ArrayBuffer }[] = [],
+  force = false
+): Promise<EpgLoadResult> => {
+  const sources: EpgSourceInput[] = await Promise.all(urls.map(async url => ({
+    key: url,
+    label: url,
+    fetchUrl: await resolveFetchUrl(url)
+  })));
+  files.forEach(file => sources.push({ key: `file:${file.name}`, label: file.name, file: file.data }));
+
+  const transfer = files.map(f => f.data).filter((d): d is ArrayBuffer => !!d);
+  const { channelCount, programmeCount, errors } = await call<'loaded'>(
+    { type: 'load', sources, force },
+    transfer
+  );
+  return { channelCount, programmeCount, errors };
+};
+
+/**
+ * Matches guide channels with the user's naming rules and aliases from now on
+ */
+export const setEpgNaming = async (config: NamingConfig): Promise<void> => {
+  await call<'naming'>({ type: 'naming', config });
+};
+
+export const getNowNext = async (channels: EpgChannelRef[], at = Date.now()) =>
+  (await call<'nowNext'>({ type: 'nowNext', channels, at })).result;
+
+export const getGuide = async (channel: { tvgId?: string, name: string }, from: number, to: number) =>
+  (await call<'guide'>({ type: 'guide', tvgId: channel.tvgId, name: channel.name, from, to })).programmes;
+
+export const formatTime = (ms: number) =>
+  new Date(ms).toLocaleTimeString('zh-CN', { hour: '2-digit', minute: '2-digit', hour12: false });
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { Channel, Source } from '../types';
+import { exportChannels, ExportFormat } from './exporter';
+import { parseAndAggregate } from './parser';
+
+const PLAYLIST = `#EXTM3U
+#EXTINF:-1 tvg-id="cctv1" tvg-logo="http://logo.tv/a,b.png" tvg-chno="1" group-title="央视, 综合" catchup="append" catchup-source="?playseek={utc:YmdHMS}" catchup-days="7",CCTV-1
+http://a.tv/cctv1.m3u8?token=1,2&x=3
+#EXTINF:-1 tvg-id="cctv1" group-title="央视, 综合" http-user-agent='Player "X" 1.0' http-referrer="http://ref.tv/?a=1,2",CCTV-1
+http://b.tv/cctv1/index.m3u8
+#EXTINF:-1 group-title="卫视",湖南卫视, 备用线路
+http://c.tv/hunan.flv?ids=1,2,3
+#EXTINF:-1 group-title="卫视",湖南卫视, 备用线路
+rtmp://d.tv/live/hunan
+`;
+
+const parse = (content: string) => parseAndAggregate([{ content, category: 'China' }]);
+
+const byId = (channels: Channel[]) => [...channels].sort((a, b) => a.id.localeCompare(b.id));
+
+// What each format is able to carry
+const sourceFields: Record<ExportFormat, (s: Source) => Partial<Source>> = {
+  m3u: s => ({ id: s.id, url: s.url, catchup: s.catchup, httpOptions: s.httpOptions }),
+  json: s => ({ id: s.id, url: s.url, catchup: s.catchup, httpOptions: s.httpOptions, status: s.status, latency: s.latency, resolution: s.resolution, checkedAt: s.checkedAt }),
+  txt: s => ({ id: s.id, url: s.url }),
+  diyp: s => ({ id: s.id, url: s.url })
+};
+
+const channelFields: Record<ExportFormat, (ch: Channel) => Partial<Channel>> = {
+  m3u: ch => ({ id: ch.id, name: ch.name, group: ch.group, tvgId: ch.tvgId, logo: ch.logo, chno: ch.chno }),
+  json: ch => ({ id: ch.id, name: ch.name, group: ch.group, tvgId: ch.tvgId, logo: ch.logo, chno: ch.chno }),
+  txt: ch => ({ id: ch.id, name: ch.name, group: ch.group }),
+  diyp: ch => ({ id: ch.id, name: ch.name, group: ch.group })
+};
+
+const project = (channels: Channel[], format: ExportFormat) =>
+  byId(channels).map(ch => ({ ...channelFields[format](ch), sources: ch.sources.map(sourceFields[format]) }));
+
+describe('export → parseAndAggregate round-trip', () => {
+  const original = parse(PLAYLIST);
+  // Check results only travel in JSON
+  original[0].sources[0] = { ...original[0].sources[0], status: 'online', latency: 120, resolution: '1080p', checkedAt: 1700000000000 };
+
+  it('reads the fixture as intended', () => {
+    expect(original.map(ch => ch.name).sort()).toEqual(['CCTV-1', '湖南卫视, 备用线路']);
+    expect(original.flatMap(ch => ch.sources).map(s => s.url).sort()).toEqual([
+      'http://a.tv/cctv1.m3u8?token=1,2&x=3',
+      'http://b.tv/cctv1/index.m3u8',
+      'http://c.tv/hunan.flv?ids=1,2,3',
+      'rtmp://d.tv/live/hunan'
+    ]);
+  });
+
+  it.each(['m3u', 'txt', 'diyp', 'json'] as ExportFormat[])('%s', format => {
+    const reparsed = parse(exportChannels(original, format));
+    expect(project(reparsed, format)).toEqual(project(original, format));
+  });
+
+  it('keeps double quotes in M3U attributes by switching to single quotes', () => {
+    const m3u = exportChannels(original, 'm3u');
+    expect(m3u).toContain(`http-user-agent='Player "X" 1.0'`);
+  });
+});
+
+describe('TXT lines', () => {
+  it.each([
+    ['a comma in the URL query', 'CCTV-1,http://a.tv/1.m3u8?a=1,2', 'CCTV-1', ['http://a.tv/1.m3u8?a=1,2']],
+    ['a comma in the name', 'Channel, One,http://a.tv/1.m3u8', 'Channel, One', ['http://a.tv/1.m3u8']],
+    ['several DIYP sources', 'CCTV-1,http://a.tv/1.m3u8?a=1,2#rtmp://b.tv/1', 'CCTV-1', ['http://a.tv/1.m3u8?a=1,2', 'rtmp://b.tv/1']]
+  ])('splits %s', (_, line, name, urls) => {
+    const [channel] = parse(`分组,#genre#\n${line}\n`);
+    expect(channel.rawNames).toEqual([name]);
+    expect(channel.group).toBe('分组');
+    expect(channel.sources.map(s => s.url)).toEqual(urls);
+  });
+});
@@ -0,0 +1,146 @@
+import { Channel, Source } from '../types';
+
+export type ExportFormat = 'm3u' | 'txt' | 'json' | 'diyp';
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string, extension: string, mime: string }> = {
+  m3u: { label: 'M3U', extension: 'm3u', mime: 'audio/x-mpegurl' },
+  txt: { label: 'TXT', extension: 'txt', mime: 'text/plain' },
+  json: { label: 'JSON', extension: 'json', mime: 'application/json' },
+  diyp: { label: 'DIYP / TVBox', extension: 'txt', mime: 'text/plain' }
+};
+
+export interface ExportOptions {
+  onlyOnline: boolean;
+  topN: number; // Sources kept per channel, 0 = all
+  sortByLatency: boolean; // Fastest first instead of the ranking order
+}
+
+// Marks JSON exports so the parser can read them back
+export const JSON_EXPORT_FORMAT = 'iptv-monitor';
+
+// M3U has no escapes inside attribute values. A value with double quotes is written
+// single-quoted instead (the parser reads both); only a value holding both kinds of
+// quote is lossy, its double quotes become single ones.
+const formatAttr = (key: string, value: string) =>
+  !value.includes('"') ? `${key}="${value}"`
+  : !value.includes("'") ? `${key}='${value}'`
+  : `${key}="${value.replace(/"/g, "'")}"`;
+
+/**
+ * Applies the export options; channels left without sources are dropped
+ */
+export const prepareExport = (channels: Channel[], { onlyOnline, topN, sortByLatency }: ExportOptions): Channel[] =>
+  channels
+    .map(ch => {
+      let sources = onlyOnline ? ch.sources.filter(s => s.status === 'online') : ch.sources;
+      if (sortByLatency) {
+        sources = [...sources].sort((a, b) => (a.latency ?? Infinity) - (b.latency ?? Infinity));
+      }
+      if (topN > 0) sources = sources.slice(0, topN);
+      return { ...ch, sources, bestSource: sources[0] };
+    })
+    .filter(ch => ch.sources.length > 0);
+
+const groupChannels = (channels: Channel[]) => {
+  const groups = new Map<string, Channel[]>();
+  channels.forEach(ch => {
+    if (!groups.has(ch.group)) groups.set(ch.group, []);
+    groups.get(ch.group)!.push(ch);
+  });
+  return groups;
+};
+
+const extInfAttrs = (ch: Channel, src: Source) => {
+  const attrs: [string, string | number | undefined][] = [
+    ['tvg-id', ch.tvgId],
+    ['tvg-name', ch.name],
+    ['tvg-logo', ch.logo],
+    ['tvg-chno', ch.chno],
+    ['group-title', ch.group],
+    ['catchup', src.catchup?.mode],
+    ['catchup-source', src.catchup?.source],
+    ['catchup-days', src.catchup?.days],
+    ['http-user-agent', src.httpOptions?.userAgent],
+    ['http-referrer', src.httpOptions?.referrer]
+  ];
+  return attrs
+    .filter(([, value]) => value !== undefined && value !== '')
+    .map(([key, value]) => formatAttr(key, String(value)))
+    .join(' ');
+};
+
+/**
+ * Serializes channels as an extended M3U playlist, one #EXTINF entry per source
+ */
+export const toM3U = (channels: Channel[]): string => {
+  const lines = ['#EXTM3U'];
+  channels.forEach(ch => {
+    ch.sources.forEach(src => {
+      lines.push(`#EXTINF:-1 ${extInfAttrs(ch, src)},${ch.name}`);
+      lines.push(src.url);
+    });
+  });
+  return lines.join('\n') + '\n';
+};
+
+/**
+ * Serializes channels in the "name,url" TXT format, grouped under "group,#genre#" headers
+ */
+export const toTXT = (channels: Channel[]): string => {
+  const lines: string[] = [];
+  groupChannels(channels).forEach((list, group) => {
+    lines.push(`${group},#genre#`);
+    list.forEach(ch => {
+      ch.sources.forEach(src => lines.push(`${ch.name},${src.url}`));
+    });
+    lines.push('');
+  });
+  return lines.join('\n');
+};
+
+/**
+ * DIYP/TVBox layout: like TXT, but one line per channel with its sources joined by "#"
+ */
+export const toDIYP = (channels: Channel[]): string => {
+  const lines: string[] = [];
+  groupChannels(channels).forEach((list, group) => {
+    lines.push(`${group},#genre#`);
+    list.forEach(ch => lines.push(`${ch.name},${ch.sources.map(s => s.url).join('#')}`));
+    lines.push('');
+  });
+  return lines.join('\n');
+};
+
+/**
+ * Full channel data including check results; parseAndAggregate reads it back
+ */
+export const toJSON = (channels: Channel[]): string =>
+  JSON.stringify({
+    format: JSON_EXPORT_FORMAT,
+    exportedAt: new Date().toISOString(),
+    channels: channels.map(ch => ({
+      name: ch.name,
+      group: ch.group,
+      tvgId: ch.tvgId,
+      logo: ch.logo,
+      chno: ch.chno,
+      sources: ch.sources.map(s => ({
+        url: s.url,
+        status: s.status,
+        latency: s.latency,
+        resolution: s.resolution,
+        checkedAt: s.checkedAt,
+        catchup: s.catchup,
+        httpOptions: s.httpOptions
+      }))
+    }))
+  }, null, 2);
+
+export const exportChannels = (channels: Channel[], format: ExportFormat): string => {
+  switch (format) {
+    case 'txt': return toTXT(channels);
+    case 'json': return toJSON(channels);
+    case 'diyp': return toDIYP(channels);
+    default: return toM3U(channels);
+  }
+};
@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import { Channel, Source } from '../types';
+import { createFilter, parseFilter, toggleTerm } from './filter';
+
+const source = (url: string, extra: Partial<Source> = {}): Source => ({
+  id: url,
+  url,
+  origins: [{ playlist: 'YueChan', rawName: '湖南卫视 HD' }],
+  status: 'online',
+  latency: 300,
+  ...extra
+});
+
+const hunan: Channel = {
+  id: 'hunan',
+  name: '湖南卫视',
+  group: '卫视',
+  category: 'China',
+  rawNames: ['湖南卫视 HD', 'HunanTV'],
+  sources: [
+    source('http://a.tv/hunan.m3u8', { resolution: '1080p', network: { ipv6: false, isp: 'telecom' } }),
+    source('rtmp://[2409:8087::1]/live/hunan', { status: 'offline', latency: null, network: { ipv6: true } }),
+    source('http://192.168.1.1:4022/udp/239.3.1.1:8000', { latency: 40, resolution: '576p', network: { ipv6: false, local: 'multicast' } })
+  ]
+};
+
+const cctv: Channel = {
+  id: 'cctv1',
+  name: 'CCTV-1',
+  group: '央视',
+  category: 'China',
+  rawNames: ['CCTV1'],
+  sources: [source('https://b.tv/cctv1.m3u8', { status: 'error', latency: null, origins: [{ playlist: 'Free', rawName: 'CCTV1' }] })]
+};
+
+const matching = (query: string) => [hunan, cctv].filter(createFilter(parseFilter(query))).map(c => c.id);
+
+describe('parseFilter', () => {
+  it.each([
+    ['湖南', [{ field: 'text', values: ['湖南'], negate: false }]],
+    ['s:Online', [{ field: 'status', values: ['online'], negate: false }]],
+    ['-proto:rtmp', [{ field: 'proto', values: ['rtmp'], negate: true }]],
+    ['group:卫视,地方', [{ field: 'group', values: ['卫视', '地方'], negate: false }]],
+    ['origin:"yue chan"', [{ field: 'origin', values: ['yue chan'], negate: false }]],
+    ['"CCTV 1"', [{ field: 'text', values: ['cctv 1'], negate: false }]],
+    ['res:>=720p ping:<500ms', [{ field: 'res', values: ['>=720p'], negate: false }, { field: 'latency', values: ['<500ms'], negate: false }]],
+    ['isp:电信', [{ field: 'net', values: ['电信'], negate: false }]],
+    ['US:news', [{ field: 'text', values: ['us:news'], negate: false }]],
+    ['', []]
+  ])('%s', (query, terms) => {
+    expect(parseFilter(query)).toEqual({ terms, errors: [] });
+  });
+
+  it.each([
+    ['status:dead', '未知状态 "dead"'],
+    ['proto:ftp', '未知协议 "ftp"'],
+    ['net:5g', '未知网络类型 "5g"'],
+    ['latency:fast', '"fast" 不是数值条件'],
+    ['sources:>=3,many', '"many" 不是数值条件']
+  ])('rejects %s', (query, error) => {
+    expect(parseFilter(query)).toEqual({ terms: [], errors: [`${query}: ${error}`] });
+  });
+
+  it('keeps the valid terms next to a rejected one', () => {
+    const parsed = parseFilter('湖南 status:dead');
+    expect(parsed.terms.map(t => t.field)).toEqual(['text']);
+    expect(parsed.errors).toHaveLength(1);
+  });
+});
+
+describe('createFilter', () => {
+  it.each([
+    ['', ['hunan', 'cctv1']],
+    ['湖南', ['hunan']],
+    ['hunantv', ['hunan']],
+    ['hunanweishi', ['hunan']],
+    ['hnws', ['hunan']],
+    ['cctv', ['cctv1']],
+    ['-湖南', ['cctv1']],
+    ['group:卫视,央视', ['hunan', 'cctv1']],
+    ['sources:>=3', ['hunan']],
+    ['sources:1', ['cctv1']],
+    ['status:cors', ['cctv1']],
+    ['status:offline', ['hunan']],
+    ['-status:online', ['cctv1']],
+    ['res:>=1080', ['hunan']],
+    ['res:<720', ['hunan']],
+    ['latency:<100', ['hunan']],
+    ['latency:>1000', []],
+    ['proto:rtmp', ['hunan']],
+    ['proto:ipv6', ['hunan']],
+    ['proto:https', ['cctv1']],
+    ['origin:yue', ['hunan']],
+    ['origin:free', ['cctv1']],
+    ['net:电信', ['hunan']],
+    ['net:telecom', ['hunan']],
+    ['net:multicast', ['hunan']],
+    ['net:ipv4', ['hunan', 'cctv1']],
+    ['net:unicom', []],
+    ['湖南 status:offline res:>=1080', ['hunan']],
+    ['湖南 -proto:rtmp', []]
+  ])('%s', (query, expected) => {
+    expect(matching(query)).toEqual(expected);
+  });
+});
+
+describe('toggleTerm', () => {
+  it.each([
+    ['湖南', 'status:online', '湖南 status:online'],
+    ['湖南  status:online', 'status:online', '湖南'],
+    ['', 'res:>=720', 'res:>=720']
+  ])('%s + %s', (query, term, expected) => {
+    expect(toggleTerm(query, term)).toBe(expected);
+  });
+});
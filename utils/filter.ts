@@ -0,0 +1,181 @@
+import { pinyin } from 'pinyin-pro';
+import { Channel, Isp, Source, SourceNetwork } from '../types';
+import { urlScheme } from './streamType';
+
+/**
+ * Search box query language. Terms are separated by spaces and must all match;
+ * a leading "-" negates a term, quotes keep spaces in a value and commas list
+ * alternatives:
+ *
+ *   湖南 status:online res:>=720 latency:<500 -proto:rtmp group:卫视,地方 sources:>=3 origin:yuechan net:电信
+ *
+ * Source fields (status, res, latency, proto, origin, net) match when any source of the
+ * channel matches. Plain words match the name, the raw playlist names, or the
+ * pinyin / pinyin initials of the name ("hnws" finds 湖南卫视).
+ */
+
+export type FilterField = 'status' | 'res' | 'latency' | 'group' | 'sources' | 'proto' | 'origin' | 'net';
+
+export interface FilterTerm {
+  field: FilterField | 'text';
+  values: string[]; // Alternatives, lower-cased
+  negate: boolean;
+}
+
+export interface ParsedFilter {
+  terms: FilterTerm[];
+  errors: string[]; // Terms that were ignored, with the reason
+}
+
+const FIELD_ALIASES: Record<string, FilterField> = {
+  status: 'status', s: 'status',
+  res: 'res', resolution: 'res',
+  latency: 'latency', ping: 'latency',
+  group: 'group', g: 'group',
+  sources: 'sources', src: 'sources',
+  proto: 'proto', protocol: 'proto',
+  origin: 'origin', from: 'origin', sub: 'origin',
+  net: 'net', network: 'net', isp: 'net'
+};
+
+export const STATUS_VALUES: Record<string, Source['status']> = {
+  online: 'online',
+  degraded: 'degraded',
+  offline: 'offline',
+  cors: 'error', // Browser-side failures can't be told apart from a missing CORS header
+  untested: 'idle',
+  checking: 'checking'
+};
+
+export const PROTO_VALUES = ['http', 'https', 'rtmp', 'rtsp', 'rtp', 'udp', 'p2p', 'ipv6'];
+
+const ISP_VALUES: Record<string, Isp> = {
+  telecom: 'telecom', 电信: 'telecom',
+  unicom: 'unicom', 联通: 'unicom',
+  mobile: 'mobile', 移动: 'mobile'
+};
+
+export const NET_VALUES = ['ipv4', 'ipv6', 'lan', 'multicast', ...Object.keys(ISP_VALUES)];
+
+const NUMERIC = /^(>=|<=|>|<|=)?(\d+)(?:p|ms)?$/i;
+const TOKEN = /(-?)(?:([a-z]+):)?(?:"([^"]*)"?|(\S+))/gi;
+const IPV6_HOST = /^[a-z][\w+.-]*:\/\/(?:[^@/]*@)?\[[0-9a-f:.]+\]/i;
+
+const compare = (op: string, a: number, b: number) =>
+  op === '>' ? a > b : op === '>=' ? a >= b : op === '<' ? a < b : op === '<=' ? a <= b : a === b;
+
+const validate = (field: FilterField, value: string): string | null => {
+  switch (field) {
+    case 'status': return value in STATUS_VALUES ? null : `未知状态 "${value}"`;
+    case 'proto': return PROTO_VALUES.includes(value) ? null : `未知协议 "${value}"`;
+    case 'net': return NET_VALUES.includes(value) ? null : `未知网络类型 "${value}"`;
+    case 'res':
+    case 'latency':
+    case 'sources': return NUMERIC.test(value) ? null : `"${value}" 不是数值条件`;
+    default: return null;
+  }
+};
+
+export const parseFilter = (query: string): ParsedFilter => {
+  const terms: FilterTerm[] = [];
+  const errors: string[] = [];
+  for (const match of query.matchAll(TOKEN)) {
+    const [raw, minus, key, quoted, bare] = match;
+    const field = key ? FIELD_ALIASES[key.toLowerCase()] : undefined;
+    // Unknown prefixes ("http:", "US:") are just text
+    const value = (field ? quoted ?? bare : key ? `${key}:${quoted ?? bare}` : quoted ?? bare).trim().toLowerCase();
+    if (!value) continue;
+    if (!field) {
+      terms.push({ field: 'text', values: [value], negate: !!minus });
+      continue;
+    }
+    const values = value.split(',').filter(Boolean);
+    const error = values.map(v => validate(field, v)).find(Boolean);
+    if (error) errors.push(`${raw.trim()}: ${error}`);
+    else terms.push({ field, values, negate: !!minus });
+  }
+  return { terms, errors };
+};
+
+const resolutionHeight = (source: Source) => source.resolution ? parseInt(source.resolution, 10) : NaN;
+
+const matchNumber = (condition: string, value: number) => {
+  const [, op = '=', n] = condition.match(NUMERIC)!;
+  return !isNaN(value) && compare(op, value, parseInt(n, 10));
+};
+
+export const sourceProtocols = (url: string): string[] => {
+  const protocols = [urlScheme(url)];
+  if (IPV6_HOST.test(url)) protocols.push('ipv6');
+  return protocols;
+};
+
+// Pinyin is costly to compute, and names repeat across refreshes
+const pinyinCache = new Map<string, string[]>();
+const HAS_CJK = /[㐀-鿿]/;
+
+const pinyinForms = (name: string): string[] => {
+  let forms = pinyinCache.get(name);
+  if (!forms) {
+    forms = HAS_CJK.test(name)
+      ? [
+          pinyin(name, { toneType: 'none', type: 'array', nonZh: 'consecutive' }).join('').toLowerCase(),
+          pinyin(name, { pattern: 'first', toneType: 'none', type: 'array', nonZh: 'consecutive' }).join('').toLowerCase()
+        ]
+      : [];
+    pinyinCache.set(name, forms);
+  }
+  return forms;
+};
+
+const matchText = (channel: Channel, text: string) =>
+  channel.name.toLowerCase().includes(text)
+  || channel.rawNames.some(raw => raw.toLowerCase().includes(text))
+  || (/^[a-z0-9]+$/.test(text) && pinyinForms(channel.name).some(form => form.includes(text)));
+
+const matchNetwork = (value: string, network?: SourceNetwork) => {
+  switch (value) {
+    case 'ipv6': return !!network?.ipv6;
+    case 'ipv4': return !network?.ipv6;
+    case 'lan':
+    case 'multicast': return network?.local === value;
+    default: return network?.isp === ISP_VALUES[value];
+  }
+};
+
+const matchSource = (field: FilterField, value: string, source: Source) => {
+  switch (field) {
+    case 'status': return source.status === STATUS_VALUES[value];
+    case 'res': return matchNumber(value, resolutionHeight(source));
+    case 'latency': return source.latency !== null && matchNumber(value, source.latency);
+    case 'proto': return sourceProtocols(source.url).includes(value) || (value === 'ipv6' && !!source.network?.ipv6);
+    case 'origin': return source.origins.some(o => o.playlist.toLowerCase().includes(value));
+    case 'net': return matchNetwork(value, source.network);
+    default: return false;
+  }
+};
+
+const matchTerm = (channel: Channel, { field, values }: FilterTerm) => {
+  switch (field) {
+    case 'text': return matchText(channel, values[0]);
+    case 'group': return values.some(v => channel.group.toLowerCase().includes(v));
+    case 'sources': return values.some(v => matchNumber(v, channel.sources.length));
+    default: return channel.sources.some(s => values.some(v => matchSource(field, v, s)));
+  }
+};
+
+/**
+ * Compiles a parsed query into a channel predicate; an empty query matches everything
+ */
+export const createFilter = ({ terms }: ParsedFilter) => (channel: Channel) =>
+  terms.every(term => matchTerm(channel, term) !== term.negate);
+
+/**
+ * Adds a term to the query, or removes it when it is already there (for quick-filter chips)
+ */
+export const toggleTerm = (query: string, term: string): string => {
+  const tokens = query.split(/\s+/).filter(Boolean);
+  return tokens.includes(term)
+    ? tokens.filter(t => t !== term).join(' ')
+    : [...tokens, term].join(' ');
+};
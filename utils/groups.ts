@@ -0,0 +1,59 @@
+import { Channel } from '../types';
+
+export interface GroupStat {
+  name: string;
+  count: number;
+  online: number; // Channels whose best source is online
+  checked: number; // Channels with at least one checked source
+}
+
+/**
+ * Per-group channel counts and health, in order of first appearance
+ */
+export const summarizeGroups = (channels: Channel[]): GroupStat[] => {
+  const stats = new Map<string, GroupStat>();
+  channels.forEach(ch => {
+    let stat = stats.get(ch.group);
+    if (!stat) stats.set(ch.group, stat = { name: ch.group, count: 0, online: 0, checked: 0 });
+    stat.count++;
+    if (ch.bestSource?.status === 'online') stat.online++;
+    if (ch.sources.some(s => s.status !== 'idle')) stat.checked++;
+  });
+  return Array.from(stats.values());
+};
+
+/**
+ * Splits an ordered channel list into consecutive-by-group sections, keeping the channel order within each
+ */
+export const groupSections = (channels: Channel[]): { group: string, channels: Channel[] }[] => {
+  const sections = new Map<string, Channel[]>();
+  channels.forEach(ch => {
+    if (!sections.has(ch.group)) sections.set(ch.group, []);
+    sections.get(ch.group)!.push(ch);
+  });
+  return Array.from(sections, ([group, list]) => ({ group, channels: list }));
+};
+
+export interface OriginStat {
+  key: string; // Subscription id, or the playlist name outside the app
+  playlist: string;
+  sources: number; // Listings, so a URL listed twice by one playlist counts twice
+  online: number;
+  conclusive: number; // Checked and not 'error' (CORS), the base for uptime
+}
+
+/**
+ * Per-subscription source health, to tell which upstream playlists are rotting
+ */
+export const summarizeOrigins = (channels: Channel[]): Map<string, OriginStat> => {
+  const stats = new Map<string, OriginStat>();
+  channels.forEach(ch => ch.sources.forEach(source => source.origins.forEach(origin => {
+    const key = origin.subscriptionId ?? origin.playlist;
+    let stat = stats.get(key);
+    if (!stat) stats.set(key, stat = { key, playlist: origin.playlist, sources: 0, online: 0, conclusive: 0 });
+    stat.sources++;
+    if (source.status === 'online') stat.online++;
+    if (source.status === 'online' || source.status === 'degraded' || source.status === 'offline') stat.conclusive++;
+  })));
+  return stats;
+};
@@ -0,0 +1,88 @@
+import { Channel, ProbeRecord, Source, SourceReliability } from '../types';
+import { HISTORY_MAX_RECORDS } from '../constants';
+import { idbEntries, idbPutMany } from './idb';
+import { rankSources } from './ranking';
+
+// Keyed by stable source id; loaded once per page
+let cache: Map<string, ProbeRecord[]> | null = null;
+
+export const loadHistory = async (): Promise<Map<string, ProbeRecord[]>> => {
+  if (!cache) {
+    try {
+      cache = new Map((await idbEntries<ProbeRecord[]>('history')).map(([key, records]) => [String(key), records]));
+    } catch (e) {
+      console.warn('Failed to load check history', e);
+      cache = new Map();
+    }
+  }
+  return cache;
+};
+
+const percentile = (sorted: number[], p: number) =>
+  sorted[Math.min(sorted.length - 1, Math.floor((p / 100) * sorted.length))];
+
+export const computeReliability = (records: ProbeRecord[]): SourceReliability => {
+  const conclusive = records.filter(r => r.status !== 'error');
+  const online = conclusive.filter(r => r.status === 'online');
+  const latencies = online
+    .map(r => r.latency)
+    .filter((l): l is number => l !== null)
+    .sort((a, b) => a - b);
+
+  return {
+    samples: conclusive.length,
+    uptime: conclusive.length > 0 ? online.length / conclusive.length : null,
+    p50: latencies.length > 0 ? percentile(latencies, 50) : null,
+    p95: latencies.length > 0 ? percentile(latencies, 95) : null,
+    lastOnline: online.length > 0 ? online[online.length - 1].ts : null
+  };
+};
+
+/**
+ * Appends probe results to the persisted history.
+ * Returns the updated reliability of every source that was recorded.
+ */
+export const recordProbes = async (
+  entries: { sourceId: string, record: ProbeRecord }[]
+): Promise<Map<string, SourceReliability>> => {
+  const history = await loadHistory();
+  const updated = new Map<string, SourceReliability>();
+  const writes: [string, ProbeRecord[]][] = [];
+
+  entries.forEach(({ sourceId, record }) => {
+    const records = [...(history.get(sourceId) || []), record].slice(-HISTORY_MAX_RECORDS);
+    history.set(sourceId, records);
+    updated.set(sourceId, computeReliability(records));
+    writes.push([sourceId, records]);
+  });
+
+  await idbPutMany('history', writes).catch(e => console.warn('Failed to save check history', e));
+  return updated;
+};
+
+/**
+ * Restores each source's last known result and reliability after a (re)parse
+ */
+export const applyHistory = (channels: Channel[], history: Map<string, ProbeRecord[]>): Channel[] =>
+  channels.map(ch => {
+    let touched = false;
+    const sources = ch.sources.map((s): Source => {
+      const records = history.get(s.id);
+      if (!records || records.length === 0 || s.status !== 'idle') return s;
+      touched = true;
+      const last = records[records.length - 1];
+      const tested = [...records].reverse().find(r => r.quality);
+      return {
+        ...s,
+        status: last.status,
+        latency: last.latency,
+        resolution: last.resolution,
+        checkedAt: last.ts,
+        reliability: computeReliability(records),
+        quality: tested?.quality
+      };
+    });
+    if (!touched) return ch;
+    const ranked = rankSources(sources);
+    return { ...ch, sources: ranked, bestSource: ranked[0] };
+  });
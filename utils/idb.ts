@@ -0,0 +1,72 @@
+/**
+ * Minimal promise wrapper around IndexedDB. Works in both the page and workers.
+ */
+const DB_NAME = 'iptv-monitor';
+const DB_VERSION = 4;
+
+// Object stores, all keyed out-of-line. Bump DB_VERSION when adding one.
+export type StoreName = 'epg' | 'playlists' | 'history' | 'runs';
+const STORES: StoreName[] = ['epg', 'playlists', 'history', 'runs'];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        STORES.forEach(name => {
+          if (!db.objectStoreNames.contains(name)) db.createObjectStore(name);
+        });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const wrap = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const idbGet = async <T>(store: StoreName, key: IDBValidKey): Promise<T | undefined> => {
+  const db = await openDb();
+  return wrap(db.transaction(store, 'readonly').objectStore(store).get(key));
+};
+
+export const idbPut = async (store: StoreName, key: IDBValidKey, value: unknown): Promise<void> => {
+  const db = await openDb();
+  await wrap(db.transaction(store, 'readwrite').objectStore(store).put(value, key));
+};
+
+export const idbDelete = async (store: StoreName, key: IDBValidKey): Promise<void> => {
+  const db = await openDb();
+  await wrap(db.transaction(store, 'readwrite').objectStore(store).delete(key));
+};
+
+export const idbPutMany = async (store: StoreName, entries: [IDBValidKey, unknown][]): Promise<void> => {
+  if (entries.length === 0) return;
+  const db = await openDb();
+  const tx = db.transaction(store, 'readwrite');
+  const objectStore = tx.objectStore(store);
+  entries.forEach(([key, value]) => objectStore.put(value, key));
+  await new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+export const idbEntries = async <T>(store: StoreName): Promise<[IDBValidKey, T][]> => {
+  const db = await openDb();
+  const objectStore = db.transaction(store, 'readonly').objectStore(store);
+  const [keys, values] = await Promise.all([wrap(objectStore.getAllKeys()), wrap(objectStore.getAll())]);
+  return keys.map((key, i) => [key, values[i] as T]);
+};
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { NAMING_DEFAULTS } from '../constants';
+import { createNormalizer, normalizeName, rawKey, validateRule } from './naming';
+
+describe('normalizeName', () => {
+  it.each([
+    ['CCTV1', 'CCTV-1'],
+    ['CCTV 1 HD', 'CCTV-1'],
+    ['CCTV-1 综合', 'CCTV-1'],
+    ['ＣＣＴＶ１', 'CCTV-1'],
+    ['CCTV5', 'CCTV-5'],
+    ['cctv_5+', 'CCTV-5+'],
+    ['CCTV5+ 体育赛事', 'CCTV-5+'],
+    ['CCTV-5+体育赛事', 'CCTV-5+'],
+    ['CCTV 4K', 'CCTV4K'],
+    ['CCTV4 欧洲', 'CCTV-4欧洲'],
+    ['CHD', 'CHD'],
+    ['CHD HD', 'CHD'],
+    ['湖南卫视 高清', '湖南卫视'],
+    ['湖南卫视备用', '湖南卫视'],
+    ['湖南卫视(备用)', '湖南卫视'],
+    ['东方卫视 [IPv6]', '东方卫视'],
+    ['US: CNN', 'CNN'],
+    ['|UK| BBC ONE', 'BBCONE']
+  ])('%s -> %s', (name, expected) => {
+    expect(normalizeName(name)).toBe(expected);
+  });
+});
+
+describe('createNormalizer', () => {
+  const normalize = createNormalizer({
+    ...NAMING_DEFAULTS,
+    aliases: { [rawKey('芒果台')]: '湖南卫视' },
+    splits: [rawKey('CCTV-5+ 赛事')],
+    rules: [
+      { id: 'btv', pattern: '^BTV', replacement: '北京', enabled: true },
+      { id: 'off', pattern: '卫视', replacement: '', enabled: false },
+      { id: 'broken', pattern: '(', replacement: '', enabled: true }
+    ]
+  });
+
+  it.each([
+    ['an alias', '芒果台', '湖南卫视'],
+    ['an alias with stray spaces', ' 芒果台 ', '湖南卫视'],
+    ['a split-out name', 'CCTV-5+ 赛事', 'CCTV-5+赛事'],
+    ['a user rule, case-insensitively', 'btv 卫视', '北京卫视'],
+    ['built-in rules next to user rules', 'CCTV5+', 'CCTV-5+']
+  ])('applies %s', (_, name, expected) => {
+    expect(normalize(name)).toBe(expected);
+  });
+
+  it('strips only the configured words', () => {
+    const keepHd = createNormalizer({ ...NAMING_DEFAULTS, stripWords: ['备用'] });
+    expect(keepHd('湖南卫视 HD 备用')).toBe('湖南卫视HD');
+  });
+});
+
+describe('validateRule', () => {
+  it('accepts valid patterns and explains broken ones', () => {
+    expect(validateRule('^CCTV\\s*(\\d+)')).toBeNull();
+    expect(validateRule('(')).toEqual(expect.any(String));
+  });
+});
@@ -0,0 +1,99 @@
+import { NameRule, NamingConfig } from '../types';
+import { NAMING_DEFAULTS } from '../constants';
+
+/**
+ * Rules every config starts with. Names are upper-cased and NFKC-folded (full-width
+ * letters, digits and "＋" become ASCII) before any rule runs.
+ */
+export const BUILTIN_RULES: Omit<NameRule, 'id' | 'enabled'>[] = [
+  // Country prefixes: "US: CNN", "|UK| BBC ONE"
+  { pattern: '^\\|?[A-Z]{2,3}\\s*[:|]\\s*', replacement: '' },
+  // UHD feeds are separate channels: "CCTV 4K" -> "CCTV4K"
+  { pattern: 'CCTV\\s*[-_]?\\s*([48]K)', replacement: 'CCTV$1' },
+  // CCTV1, CCTV 1, CCTV-1, CCTV_5+ -> CCTV-1 / CCTV-5+
+  { pattern: 'CCTV\\s*[-_]?\\s*(\\d+)(?![\\dK])\\s*(\\+)?', replacement: 'CCTV-$1$2' },
+  // Descriptions after the number: "CCTV-5+体育赛事", "CCTV-13 新闻" (the overseas feeds stay apart)
+  { pattern: '^(CCTV-\\d+\\+?)(?![\\d+])(?!.*(?:欧洲|美洲)).+$', replacement: '$1' }
+];
+
+const isAscii = (word: string) => /^[\x20-\x7e]+$/.test(word);
+const escapeRegExp = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Upper-cased lookup key for alias/split entries
+ */
+export const rawKey = (name: string) => name.normalize('NFKC').trim().toUpperCase();
+
+/**
+ * Checks a user rule before it is saved; returns the error message, if any
+ */
+export const validateRule = (pattern: string): string | null => {
+  try {
+    new RegExp(pattern, 'g');
+    return null;
+  } catch (e) {
+    return e instanceof Error ? e.message : String(e);
+  }
+};
+
+/**
+ * Compiles a naming config into a function from a playlist name to a channel key.
+ * Names that map to the same key are merged into one channel.
+ */
+export const createNormalizer = (config: NamingConfig = NAMING_DEFAULTS) => {
+  const rules: [RegExp, string][] = [];
+  [...BUILTIN_RULES, ...config.rules.filter(r => r.enabled)].forEach(rule => {
+    if (validateRule(rule.pattern)) return; // Broken user rules are skipped, not fatal
+    rules.push([new RegExp(rule.pattern, 'gi'), rule.replacement]);
+  });
+
+  // Latin tags only count as whole words, so "CHD" keeps its "HD";
+  // CJK tags have no word boundaries and are removed wherever they appear.
+  const strip = config.stripWords
+    .map(w => w.trim().toUpperCase())
+    .filter(Boolean)
+    .sort((a, b) => b.length - a.length)
+    .map(w => isAscii(w)
+      ? new RegExp(`(?<![A-Z0-9])${escapeRegExp(w)}(?![A-Z0-9])`, 'g')
+      : new RegExp(escapeRegExp(w), 'g'));
+
+  const aliases = new Map<string, string>();
+  Object.entries(config.aliases).forEach(([raw, target]) => aliases.set(rawKey(raw), target));
+  const splits = new Set(config.splits.map(rawKey));
+
+  const normalize = (name: string): string => {
+    let n = name.normalize('NFKC').toUpperCase();
+
+    // 1. Remove content in brackets/parentheses first (e.g. [IPv6], (HEVC))
+    n = n.replace(/\[.*?\]/g, '').replace(/（.*?）/g, '').replace(/\(.*?\)/g, '');
+
+    // 2. Canonical forms
+    rules.forEach(([re, replacement]) => {
+      n = n.replace(re, replacement);
+    });
+
+    // 3. Tags that don't change the channel identity
+    strip.forEach(re => {
+      n = n.replace(re, ' ');
+    });
+
+    // 4. Remove all whitespace and trailing separators
+    return n.replace(/\s+/g, '').replace(/[-_]+$/, '').trim();
+  };
+
+  // A split-out name is its own channel, keyed by the name as written
+  const resolve = (name: string) => {
+    const key = rawKey(name);
+    return splits.has(key) ? key.replace(/\s+/g, '') : normalize(name);
+  };
+
+  return (name: string): string => {
+    const alias = aliases.get(rawKey(name));
+    return resolve(alias !== undefined ? alias : name);
+  };
+};
+
+/**
+ * Normalizes channel names to improve grouping (e.g., "CCTV 1" -> "CCTV-1"), using the default rules
+ */
+export const normalizeName = createNormalizer();
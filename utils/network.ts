@@ -0,0 +1,79 @@
+import { ClientNetwork, Isp, Source, SourceNetwork } from '../types';
+
+/**
+ * Network tags of a source, derived from its URL and the names it was listed
+ * under. Channel names lose "电信" or "IPV6" during normalization, the raw
+ * names in the source origins still have them.
+ */
+
+export const ISP_LABELS: Record<Isp, string> = {
+  telecom: '电信',
+  unicom: '联通',
+  mobile: '移动'
+};
+
+// Listed names are a stronger hint than the host, so they are tried first
+const ISP_NAME_HINTS: [Isp, RegExp][] = [
+  ['telecom', /电信|CTCC|TELECOM/i],
+  ['unicom', /联通|CUCC|UNICOM/i],
+  ['mobile', /移动|CMCC/i]
+];
+
+const ISP_HOST_HINTS: [Isp, RegExp][] = [
+  ['telecom', /telecom|ctcc|ctyun|189\.cn/],
+  ['unicom', /unicom|cucc|wo\.cn|10010/],
+  ['mobile', /chinamobile|cmcc|cmvideo|migu|10086/]
+];
+
+const IPV4 = /^(\d{1,3})\.(\d{1,3})\.\d{1,3}\.\d{1,3}$/;
+// udpxy and similar relays: http://router:4022/udp/239.3.1.1:8000
+const RELAYED_GROUP = /\/(?:udp|rtp)\/@?(\d{1,3}\.\d{1,3}\.\d{1,3}\.\d{1,3})/i;
+
+const isMulticast = (address: string) => {
+  const v4 = address.match(IPV4);
+  if (v4) return +v4[1] >= 224 && +v4[1] <= 239;
+  return /^ff[0-9a-f]{2}:/.test(address);
+};
+
+const isPrivate = (address: string) => {
+  const v4 = address.match(IPV4);
+  if (v4) {
+    const [a, b] = [+v4[1], +v4[2]];
+    return a === 10 || a === 127 || (a === 172 && b >= 16 && b <= 31) || (a === 192 && b === 168) || (a === 169 && b === 254);
+  }
+  return address === '::1' || /^f[cd][0-9a-f]{2}:/.test(address) || /^fe[89ab][0-9a-f]:/.test(address)
+    || address === 'localhost' || address.endsWith('.local') || address.endsWith('.lan');
+};
+
+const ispHint = (names: string[], host: string): Isp | undefined =>
+  ISP_NAME_HINTS.find(([, re]) => names.some(name => re.test(name)))?.[0]
+  ?? ISP_HOST_HINTS.find(([, re]) => re.test(host))?.[0];
+
+/**
+ * Tags a source from its URL and the channel and playlist names it was listed under
+ */
+export const classifySource = (url: string, names: string[]): SourceNetwork => {
+  let host = '';
+  try {
+    host = new URL(url).hostname.toLowerCase();
+  } catch {
+    // Not a URL, there is nothing to tell
+  }
+  const ipv6 = host.startsWith('[');
+  const address = ipv6 ? host.slice(1, -1) : host;
+  const relayed = url.match(RELAYED_GROUP);
+
+  const network: SourceNetwork = { ipv6 };
+  const isp = ispHint(names, host);
+  if (isp) network.isp = isp;
+  if (isMulticast(address) || (relayed && isMulticast(relayed[1]))) network.local = 'multicast';
+  else if (isPrivate(address)) network.local = 'lan';
+  return network;
+};
+
+/**
+ * False when the client is known not to reach the source at all
+ * (an IPv6 source on a client without IPv6)
+ */
+export const isReachable = (source: Source, client: ClientNetwork) =>
+  !(source.network?.ipv6 && client.ipv6 === false);
@@ -1,142 +1,338 @@
-import { Channel, Source } from '../types';
+import { Channel, Source, SourceOrigin, CatchupInfo, HttpOptions, NamingConfig } from '../types';
+import { NAMING_DEFAULTS } from '../constants';
+import { rankSources } from './ranking';
+import { createNormalizer, rawKey } from './naming';
+import { createCanonicalizer, markSharedUrls } from './urls';
+import { classifySource } from './network';
+import { JSON_EXPORT_FORMAT } from './exporter';
 
-const generateId = () => Math.random().toString(36).substr(2, 9);
+/**
+ * Deterministic short id (53-bit cyrb53 hash, base36) so channels and sources
+ * keep the same identity across reloads and playlist refreshes
+ */
+export const stableId = (input: string): string => {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < input.length; i++) {
+    const ch = input.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+};
+
+export interface ExtInf {
+  duration: number;
+  attrs: Record<string, string>; // Attribute keys are lower-cased
+  title: string;
+}
+
+/**
+ * Parses `key="value"` / `key=value` pairs. Quoted values may contain spaces and commas.
+ */
+export const parseAttributes = (text: string): Record<string, string> => {
+  const attrs: Record<string, string> = {};
+  const re = /([\w-]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s,]*))/g;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(text)) !== null) {
+    attrs[m[1].toLowerCase()] = (m[2] ?? m[3] ?? m[4] ?? '').trim();
+  }
+  return attrs;
+};
+
+/**
+ * Splits an `#EXTINF:<duration> <attrs>,<title>` line.
+ * The title starts at the first comma that is not inside a quoted attribute value.
+ */
+export const parseExtInf = (line: string): ExtInf => {
+  const body = line.replace(/^#EXTINF:/i, '');
+  let quote: string | null = null;
+  let split = -1;
+  for (let i = 0; i < body.length; i++) {
+    const ch = body[i];
+    if (quote) {
+      if (ch === quote) quote = null;
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+    } else if (ch === ',') {
+      split = i;
+      break;
+    }
+  }
+
+  const head = split === -1 ? body : body.slice(0, split);
+  const title = split === -1 ? '' : body.slice(split + 1).trim();
+  const durationMatch = head.match(/^\s*(-?\d+(?:\.\d+)?)/);
+  return {
+    duration: durationMatch ? parseFloat(durationMatch[1]) : -1,
+    attrs: parseAttributes(durationMatch ? head.slice(durationMatch[0].length) : head),
+    title
+  };
+};
 
 /**
- * Normalizes channel names to improve grouping (e.g., "CCTV 1" -> "CCTV-1")
+ * Collects the EPG URLs declared by `x-tvg-url` / `url-tvg` on the #EXTM3U header line(s)
  */
-const normalizeName = (name: string): string => {
-  let n = name.toUpperCase();
-  
-  // 1. Remove content in brackets/parentheses first (e.g. [IPv6], (HEVC))
-  n = n.replace(/\[.*?\]/g, '').replace(/（.*?）/g, '').replace(/\(.*?\)/g, '');
-  
-  // 2. Normalize CCTV formats
-  // Matches CCTV1, CCTV 1, CCTV-1 -> CCTV-1
-  n = n.replace(/CCTV\s*[-]?\s*(\d+)(\+)?/g, 'CCTV-$1$2');
-  
-  // 3. Remove common keywords that don't change the channel identity
-  const keywords = [
-    'HD', 'FHD', 'SD', 'UHD', 
-    'HEVC', 'H.265', 'H264', 
-    'IPTV', 'LIVE', '直播', 
-    '高清', '超清', '标清', '频道', 
-    'TEST', '测试', 
-    'IPV6', 'IPV4', 
-    '1080P', '720P', '4K', '8K', 
-    '50FPS', '60FPS',
-    '电信', '联通', '移动', '酒店'
-  ];
-  
-  keywords.forEach(k => {
-    n = n.replace(new RegExp(k, 'g'), '');
+export const extractTvgUrls = (contents: string[]): string[] => {
+  const urls = new Set<string>();
+  contents.forEach(content => {
+    content.split('\n').forEach(line => {
+      line = line.trim();
+      if (!line.toUpperCase().startsWith('#EXTM3U')) return;
+      const attrs = parseAttributes(line.slice('#EXTM3U'.length));
+      [attrs['x-tvg-url'], attrs['url-tvg']].forEach(value => {
+        // Some playlists list several guides separated by commas
+        value?.split(',').map(u => u.trim()).filter(Boolean).forEach(u => urls.add(u));
+      });
+    });
   });
-  
-  // 4. Remove all whitespace
-  n = n.replace(/\s+/g, '');
-  
-  // 5. Remove trailing separators
-  n = n.replace(/[-_]+$/, '');
-  
-  return n.trim();
+  return Array.from(urls);
+};
+
+const TXT_URL_START = /,\s*(?=(?:https?|rtmp|rtsp|udp|rtp):\/\/|p2p)/i;
+
+const isStreamUrl = (value: string) => /^(https?|rtmp|rtsp|udp|rtp):\/\//i.test(value) || value.startsWith('p2p');
+
+const parseCatchup = (attrs: Record<string, string>, defaults?: CatchupInfo): CatchupInfo | undefined => {
+  const mode = attrs['catchup'] || defaults?.mode;
+  const source = attrs['catchup-source'] || defaults?.source;
+  if (!mode && !source) return undefined;
+  const days = parseInt(attrs['catchup-days'] || '', 10);
+  return {
+    mode: (mode || 'default').toLowerCase(),
+    source: source || undefined,
+    days: Number.isFinite(days) ? days : defaults?.days
+  };
+};
+
+interface ParsedEntry {
+  name: string;
+  group: string;
+  url: string;
+  tvgId?: string;
+  logo?: string;
+  chno?: string;
+  catchup?: CatchupInfo;
+  httpOptions?: HttpOptions;
+  result?: Pick<Source, 'status' | 'latency' | 'resolution' | 'checkedAt'>; // Check result, JSON exports only
+}
+
+/**
+ * Entries of a JSON export (see toJSON), or null when the content is something else
+ */
+const parseJsonExport = (content: string): ParsedEntry[] | null => {
+  if (!content.trimStart().startsWith('{')) return null;
+  try {
+    const data = JSON.parse(content);
+    if (data?.format !== JSON_EXPORT_FORMAT || !Array.isArray(data.channels)) return null;
+    return data.channels.flatMap((ch: Partial<Channel>) => (ch.sources || []).map((src: Partial<Source>) => ({
+      name: ch.name || '',
+      group: ch.group || 'Other',
+      url: src.url || '',
+      tvgId: ch.tvgId,
+      logo: ch.logo,
+      chno: ch.chno,
+      catchup: src.catchup,
+      httpOptions: src.httpOptions,
+      result: src.status && src.status !== 'idle' ? {
+        status: src.status === 'checking' ? 'idle' : src.status,
+        latency: src.latency ?? null,
+        resolution: src.resolution,
+        checkedAt: src.checkedAt
+      } : undefined
+    }))).filter((entry: ParsedEntry) => entry.name && isStreamUrl(entry.url));
+  } catch {
+    return null;
+  }
 };
 
+export interface PlaylistInput {
+  content: string;
+  category: string;
+  name?: string; // Recorded as each source's origin; defaults to the category
+  subscriptionId?: string;
+}
+
 /**
- * Aggregates multiple playlist contents into a unified Channel list
+ * Aggregates multiple playlist contents into a unified Channel list.
+ * Channels are merged by normalized name, following the user's naming rules and aliases.
+ * Sources are merged by canonical URL, so token or scheme variants become aliases of one source.
+ * Every source keeps where it was listed (see SourceOrigin).
  */
 export const parseAndAggregate = (
-  playlists: { content: string, category: 'China' | 'International' }[]
+  playlists: PlaylistInput[],
+  naming: NamingConfig = NAMING_DEFAULTS
 ): Channel[] => {
   const channelMap = new Map<string, Channel>();
+  const normalizeName = createNormalizer(naming);
+  const canonical = createCanonicalizer(naming.stripParams);
+  const byUrl = new Map<string, Source>(); // Channel key + canonical URL -> source
 
   // Helper to add a channel to the map
-  const addChannelToMap = (name: string, group: string, url: string, category: 'China' | 'International') => {
+  const addChannelToMap = (entry: ParsedEntry, category: string, listing: Omit<SourceOrigin, 'rawName'>) => {
     // Basic cleanup of the display name before normalization logic
-    const cleanName = name.trim();
+    const cleanName = entry.name.trim();
     const normalizedKey = normalizeName(cleanName);
     
     // Skip invalid or empty names
     if (!normalizedKey || normalizedKey.length < 2) return;
 
+    const alias = naming.aliases[rawKey(cleanName)];
     if (!channelMap.has(normalizedKey)) {
       channelMap.set(normalizedKey, {
-        id: generateId(),
+        id: stableId(normalizedKey),
         name: cleanName, // Use the first encountered name as display name
-        group: group || 'Other',
+        group: entry.group || 'Other',
         category: category,
+        rawNames: [],
         sources: [],
         bestSource: undefined
       });
     }
 
     const channel = channelMap.get(normalizedKey)!;
+    if (alias) channel.name = alias; // A manual merge names the channel
+    if (!channel.rawNames.includes(cleanName)) channel.rawNames.push(cleanName);
+
+    // Fill in channel metadata from the first playlist that provides it
+    if (!channel.tvgId && entry.tvgId) channel.tvgId = entry.tvgId;
+    if (!channel.logo && entry.logo) channel.logo = entry.logo;
+    if (!channel.chno && entry.chno) channel.chno = entry.chno;
     
-    // Avoid duplicate URLs for the same channel
-    if (!channel.sources.some(s => s.url === url)) {
-      channel.sources.push({
-        id: generateId(),
-        url: url,
+    // Avoid duplicate streams for the same channel, but remember every listing and spelling
+    const origin: SourceOrigin = { ...listing, rawName: cleanName };
+    const urlKey = `${normalizedKey}|${canonical(entry.url)}`;
+    const existing = byUrl.get(urlKey);
+    if (existing) {
+      existing.origins.push(origin);
+      if (entry.url !== existing.url && !existing.aliases?.includes(entry.url)) {
+        existing.aliases = [...existing.aliases ?? [], entry.url];
+      }
+    } else {
+      const source: Source = {
+        // From the canonical key, so a fresh token in the URL keeps the source's check history
+        id: stableId(urlKey),
+        url: entry.url,
+        origins: [origin],
         status: 'idle',
-        latency: null
-      });
+        latency: null,
+        catchup: entry.catchup,
+        httpOptions: entry.httpOptions,
+        ...entry.result
+      };
+      byUrl.set(urlKey, source);
+      channel.sources.push(source);
     }
   };
 
-  playlists.forEach(({ content, category }) => {
+  playlists.forEach(({ content, category, name, subscriptionId }) => {
+    const playlist = name || category;
+
+    // Our own JSON export carries everything directly
+    const exported = parseJsonExport(content);
+    if (exported) {
+      exported.forEach(entry => addChannelToMap(entry, category, { playlist, subscriptionId }));
+      return;
+    }
+
     const lines = content.split('\n');
-    let currentName = '';
-    let currentGroup = '';
+    let current: Omit<ParsedEntry, 'url'> | null = null;
+    let txtGroup = 'Other'; // From the last "group,#genre#" line
+    let pendingGroup = ''; // From #EXTGRP
+    let pendingHttp: HttpOptions = {}; // From #EXTVLCOPT, applies to the next URL
+    let headerCatchup: CatchupInfo | undefined = undefined;
 
-    for (let line of lines) {
-      line = line.trim();
+    for (const [index, raw] of lines.entries()) {
+      const line = raw.trim();
       if (!line) continue;
+      const listing = { playlist, subscriptionId, line: index + 1 };
 
+      // 0. Playlist header: catchup defaults for every entry
+      if (line.toUpperCase().startsWith('#EXTM3U')) {
+        headerCatchup = parseCatchup(parseAttributes(line.slice('#EXTM3U'.length)));
+      }
       // 1. Handle M3U Metadata
-      if (line.startsWith('#EXTINF:')) {
-        // Extract group
-        const groupMatch = line.match(/group-title="([^"]*)"/);
-        currentGroup = groupMatch ? groupMatch[1] : 'Uncategorized';
-        
-        // Extract name (handle tvg-name or trailing name)
+      else if (line.startsWith('#EXTINF:')) {
+        const { attrs, title } = parseExtInf(line);
+
+        // Prefer tvg-name if available, else use trailing name
         // Some M3U's use tvg-name="CCTV-1"
-        const tvgNameMatch = line.match(/tvg-name="([^"]*)"/);
-        
-        const nameParts = line.split(',');
-        const trailingName = nameParts[nameParts.length - 1].trim();
-        
-        // Prefer tvg-name if available and reasonable, else use trailing name
-        currentName = tvgNameMatch ? tvgNameMatch[1] : trailingName;
-        
-        // Fallback if extracted name is empty
-        if (!currentName) currentName = trailingName;
-
-      } 
-      // 2. Handle TXT format: "Channel Name,http://..."
-      else if (line.includes(',') && !line.startsWith('#')) {
-         const parts = line.split(',');
-         const possibleUrl = parts[parts.length - 1].trim();
+        const name = attrs['tvg-name'] || title;
+        const userAgent = attrs['http-user-agent'] || attrs['user-agent'];
+        const referrer = attrs['http-referrer'] || attrs['http-referer'] || attrs['referer'];
+        if (userAgent) pendingHttp.userAgent = userAgent;
+        if (referrer) pendingHttp.referrer = referrer;
+
+        current = {
+          name,
+          group: attrs['group-title'] || pendingGroup || 'Uncategorized',
+          tvgId: attrs['tvg-id'] || undefined,
+          logo: attrs['tvg-logo'] || undefined,
+          chno: attrs['tvg-chno'] || attrs['channel-number'] || undefined,
+          catchup: parseCatchup(attrs, headerCatchup)
+        };
+      }
+      else if (line.startsWith('#EXTGRP:')) {
+        pendingGroup = line.slice('#EXTGRP:'.length).trim();
+        if (current && current.group === 'Uncategorized' && pendingGroup) current.group = pendingGroup;
+      }
+      else if (line.startsWith('#EXTVLCOPT:')) {
+        const opt = line.slice('#EXTVLCOPT:'.length);
+        const eq = opt.indexOf('=');
+        if (eq !== -1) {
+          const key = opt.slice(0, eq).trim().toLowerCase();
+          const value = opt.slice(eq + 1).trim();
+          if (key === 'http-user-agent') pendingHttp.userAgent = value;
+          if (key === 'http-referrer' || key === 'http-referer') pendingHttp.referrer = value;
+        }
+      }
+      // 2. Handle TXT format: "Channel Name,http://..." under optional "Group,#genre#" headers.
+      // DIYP/TVBox lists put several sources on one line: "Channel Name,url1#url2"
+      // (An M3U URL line can have commas in its query, it is not a TXT line)
+      else if (line.includes(',') && !line.startsWith('#') && !isStreamUrl(line)) {
+         // Names may contain commas and URLs may too (in the query): split before the first URL
+         const urlStart = line.search(TXT_URL_START);
+         const comma = urlStart !== -1 ? urlStart : line.lastIndexOf(',');
+         const possibleUrl = line.slice(comma + 1).trim();
+
+         if (possibleUrl === '#genre#') {
+           txtGroup = line.slice(0, comma).trim() || 'Other';
+           current = null;
+           continue;
+         }
          
          // Simple validation: must look like a URL
-         if (possibleUrl.startsWith('http') || possibleUrl.startsWith('rtmp') || possibleUrl.startsWith('p2p')) {
-           const name = parts.slice(0, parts.length - 1).join(',').trim();
-           // TXT usually doesn't have group info, default to Uncategorized or try to infer?
-           addChannelToMap(name, 'Other', possibleUrl, category);
+         const urls = possibleUrl.split(/#(?=[a-z][a-z0-9+.-]*:\/\/)/i).map(u => u.trim());
+         if (urls.every(isStreamUrl)) {
+           const name = line.slice(0, comma).trim();
+           urls.forEach(url => addChannelToMap({ name, group: txtGroup, url }, category, listing));
            
            // Reset state to avoid M3U logic picking up weird things
-           currentName = '';
+           current = null;
          }
       }
       // 3. Handle M3U URL line
-      else if (!line.startsWith('#') && (line.startsWith('http') || line.startsWith('rtmp'))) {
-        if (currentName) {
-          addChannelToMap(currentName, currentGroup, line, category);
-          // Don't reset currentName/Group immediately as some M3Us might list multiple URLs for one EXTINF (rare but possible)
+      else if (!line.startsWith('#') && isStreamUrl(line)) {
+        if (current && current.name) {
+          const httpOptions = pendingHttp.userAgent || pendingHttp.referrer ? { ...pendingHttp } : undefined;
+          addChannelToMap({ ...current, url: line, httpOptions }, category, listing);
+          // Don't reset current immediately as some M3Us might list multiple URLs for one EXTINF (rare but possible)
         }
+        pendingHttp = {};
+        pendingGroup = '';
       }
     }
   });
 
-  return Array.from(channelMap.values()).sort((a, b) => {
+  const channels = Array.from(channelMap.values());
+  markSharedUrls(channels, canonical);
+  channels.forEach(ch => ch.sources.forEach(source => {
+    source.network = classifySource(source.url, source.origins.flatMap(o => [o.rawName, o.playlist]));
+  }));
+
+  return channels.sort((a, b) => {
     // Prioritize CCTV
     const isCCTVa = a.name.toUpperCase().includes('CCTV');
     const isCCTVb = b.name.toUpperCase().includes('CCTV');
@@ -152,3 +348,41 @@ export const parseAndAggregate = (
     return a.name.localeCompare(b.name, 'zh-CN');
   });
 };
+
+
+/**
+ * Carries check results over from a previous parse, so refreshing a playlist
+ * doesn't reset every source back to 'idle'
+ */
+export const carryOverResults = (prev: Channel[], next: Channel[]): Channel[] => {
+  if (prev.length === 0) return next;
+  const previous = new Map<string, Source>();
+  prev.forEach(ch => ch.sources.forEach(s => previous.set(s.id, s)));
+
+  return next.map(ch => {
+    let touched = false;
+    const sources = ch.sources.map(s => {
+      const old = previous.get(s.id);
+      if (!old || old.status === 'idle') return s;
+      touched = true;
+      return {
+        ...s,
+        status: old.status === 'checking' ? 'idle' as const : old.status,
+        latency: old.latency,
+        resolution: old.resolution,
+        finalUrl: old.finalUrl,
+        httpStatus: old.httpStatus,
+        failedStage: old.failedStage,
+        streamType: old.streamType,
+        // An IPv6-only host is only known from a check, the URL doesn't tell
+        network: old.network?.ipv6 && s.network ? { ...s.network, ipv6: true } : s.network,
+        reliability: old.reliability,
+        checkedAt: old.checkedAt,
+        quality: old.quality
+      };
+    });
+    if (!touched) return ch;
+    const ranked = rankSources(sources);
+    return { ...ch, sources: ranked, bestSource: ranked[0] };
+  });
+};
@@ -0,0 +1,280 @@
+import Hls, { FragLoadedData } from 'hls.js';
+import { PlaybackMetrics, PlaybackQuality, Source, StreamType } from '../types';
+import { PLAYBACK_START_TIMEOUT_MS, PLAYBACK_TEST_SECONDS } from '../constants';
+import { resolvePlaybackUrl } from './checker';
+import { STREAM_TYPE_LABELS, streamTypeOf } from './streamType';
+
+export interface StreamSession {
+  engine: 'hls.js' | 'mpegts.js' | 'dash.js' | 'native';
+  hls: Hls | null; // Only with hls.js, which reports levels and fragment throughput
+  destroy: () => void;
+}
+
+const autoplay = (video: HTMLVideoElement) => {
+  video.play().catch(e => console.warn("Autoplay blocked", e));
+};
+
+const attachHls = (video: HTMLVideoElement, src: string, onFatal: (reason: string) => void): StreamSession => {
+  const hls = new Hls({
+    enableWorker: true,
+    lowLatencyMode: true,
+  });
+  hls.loadSource(src);
+  hls.attachMedia(video);
+  hls.on(Hls.Events.MANIFEST_PARSED, () => autoplay(video));
+
+  let mediaRecovered = false;
+  hls.on(Hls.Events.ERROR, (event, data) => {
+    if (!data.fatal) return;
+    if (data.type === Hls.ErrorTypes.MEDIA_ERROR && !mediaRecovered) {
+      // Decoder hiccups are often recoverable once
+      mediaRecovered = true;
+      hls.recoverMediaError();
+      return;
+    }
+    onFatal(data.type === Hls.ErrorTypes.NETWORK_ERROR ? '网络错误' : data.type === Hls.ErrorTypes.MEDIA_ERROR ? '媒体错误' : data.details);
+  });
+  return { engine: 'hls.js', hls, destroy: () => hls.destroy() };
+};
+
+const attachNative = (video: HTMLVideoElement, src: string, onFatal: (reason: string) => void): StreamSession => {
+  const play = () => autoplay(video);
+  const handleError = () => onFatal('媒体错误');
+  video.src = src;
+  video.addEventListener('loadedmetadata', play);
+  video.addEventListener('error', handleError);
+  return {
+    engine: 'native',
+    hls: null,
+    destroy: () => {
+      video.removeEventListener('loadedmetadata', play);
+      video.removeEventListener('error', handleError);
+      video.removeAttribute('src');
+      video.load();
+    }
+  };
+};
+
+// HTTP-FLV and raw MPEG-TS are remuxed into MSE by mpegts.js
+const attachMpegts = async (video: HTMLVideoElement, src: string, type: 'flv' | 'mpegts', onFatal: (reason: string) => void): Promise<StreamSession | null> => {
+  const { default: mpegts } = await import('mpegts.js');
+  if (!mpegts.getFeatureList().mseLivePlayback) return null;
+
+  const player = mpegts.createPlayer(
+    { type, isLive: true, url: src },
+    { enableStashBuffer: false, liveBufferLatencyChasing: true }
+  );
+  player.on(mpegts.Events.ERROR, (type: string) => onFatal(type === mpegts.ErrorTypes.NETWORK_ERROR ? '网络错误' : '媒体错误'));
+  player.attachMediaElement(video);
+  player.load();
+  autoplay(video);
+  return {
+    engine: 'mpegts.js',
+    hls: null,
+    destroy: () => {
+      player.pause();
+      player.unload();
+      player.detachMediaElement();
+      player.destroy();
+    }
+  };
+};
+
+const attachDash = async (video: HTMLVideoElement, src: string, onFatal: (reason: string) => void): Promise<StreamSession | null> => {
+  if (!('MediaSource' in window)) return null;
+  const { MediaPlayer } = await import('dashjs');
+  const player = MediaPlayer().create();
+  player.on(MediaPlayer.events.ERROR, () => onFatal('媒体错误'));
+  player.initialize(video, src, true);
+  return { engine: 'dash.js', hls: null, destroy: () => player.reset() };
+};
+
+/**
+ * Starts loading a stream into a video element with the engine its type
+ * needs: hls.js (or native HLS on Safari), mpegts.js for FLV/TS, dash.js
+ * for DASH, the video element itself for MP4. The non-HLS engines are only
+ * downloaded when first used. Fatal errors are reported once through
+ * `onFatal`. Resolves to null when the browser can't play the type.
+ */
+export const attachStream = async (
+  video: HTMLVideoElement,
+  src: string,
+  type: StreamType,
+  onFatal: (reason: string) => void
+): Promise<StreamSession | null> => {
+  switch (type) {
+    case 'flv':
+    case 'mpegts':
+      return attachMpegts(video, src, type, onFatal);
+    case 'dash':
+      return attachDash(video, src, onFatal);
+    case 'mp4':
+      return attachNative(video, src, onFatal);
+    case 'hls':
+    case 'unknown':
+      if (Hls.isSupported()) return attachHls(video, src, onFatal);
+      if (video.canPlayType('application/vnd.apple.mpegurl')) return attachNative(video, src, onFatal);
+      return null;
+    default:
+      return null;
+  }
+};
+
+/**
+ * Why a source can't be played here, for the player's error message
+ */
+export const unsupportedReason = (type: StreamType) => `浏览器无法播放 ${STREAM_TYPE_LABELS[type]} 格式`;
+
+export interface PlaybackTracker {
+  snapshot: () => PlaybackMetrics;
+  stop: () => void;
+}
+
+const bufferAhead = (video: HTMLVideoElement) => {
+  const { buffered, currentTime } = video;
+  for (let i = 0; i < buffered.length; i++) {
+    if (buffered.start(i) <= currentTime + 0.1 && currentTime <= buffered.end(i)) return buffered.end(i) - currentTime;
+  }
+  return 0;
+};
+
+const frameCounts = (video: HTMLVideoElement) => {
+  const quality = video.getVideoPlaybackQuality?.();
+  return { total: quality?.totalVideoFrames ?? 0, dropped: quality?.droppedVideoFrames ?? 0 };
+};
+
+/**
+ * Collects playback metrics from the video element and hls.js events.
+ * Create it right when loading starts, so time to first frame is measured from there.
+ */
+export const trackPlayback = (video: HTMLVideoElement, hls: Hls | null): PlaybackTracker => {
+  const startedAt = performance.now();
+  let firstFrameAt: number | null = null;
+  let stalls = 0;
+  let stallMs = 0;
+  let stallStart: number | null = null;
+  let bytes = 0;
+  let loadMs = 0;
+  // fps is averaged between snapshots, starting at the first frame
+  let frameMark = { count: 0, at: startedAt };
+  let fps: number | null = null;
+
+  const handlePlaying = () => {
+    const now = performance.now();
+    if (firstFrameAt === null) {
+      firstFrameAt = now;
+      frameMark = { count: frameCounts(video).total, at: now };
+    }
+    if (stallStart !== null) {
+      stallMs += now - stallStart;
+      stallStart = null;
+    }
+  };
+
+  const handleWaiting = () => {
+    if (firstFrameAt === null || stallStart !== null) return;
+    stalls++;
+    stallStart = performance.now();
+  };
+
+  const handleFragLoaded = (event: string, { frag }: FragLoadedData) => {
+    const ms = frag.stats.loading.end - frag.stats.loading.start;
+    if (frag.stats.loaded > 0 && ms > 0) {
+      bytes += frag.stats.loaded;
+      loadMs += ms;
+    }
+  };
+
+  video.addEventListener('playing', handlePlaying);
+  video.addEventListener('waiting', handleWaiting);
+  hls?.on(Hls.Events.FRAG_LOADED, handleFragLoaded);
+
+  const snapshot = (): PlaybackMetrics => {
+    const now = performance.now();
+    const frames = frameCounts(video);
+    if (firstFrameAt !== null && now - frameMark.at >= 500) {
+      fps = Math.round((frames.total - frameMark.count) / ((now - frameMark.at) / 1000));
+      frameMark = { count: frames.total, at: now };
+    }
+    const level = hls && hls.currentLevel >= 0 ? hls.currentLevel : null;
+    return {
+      ttff: firstFrameAt === null ? null : Math.round(firstFrameAt - startedAt),
+      width: video.videoWidth,
+      height: video.videoHeight,
+      fps,
+      bitrate: level !== null ? hls!.levels[level]?.bitrate ?? null : null,
+      level,
+      levels: hls?.levels.length ?? 0,
+      bufferLength: bufferAhead(video),
+      droppedFrames: frames.dropped,
+      totalFrames: frames.total,
+      stalls,
+      stallMs: Math.round(stallMs + (stallStart !== null ? now - stallStart : 0)),
+      throughput: loadMs > 0 ? Math.round(bytes * 8 / (loadMs / 1000)) : null
+    };
+  };
+
+  return {
+    snapshot,
+    stop: () => {
+      video.removeEventListener('playing', handlePlaying);
+      video.removeEventListener('waiting', handleWaiting);
+      hls?.off(Hls.Events.FRAG_LOADED, handleFragLoaded);
+    }
+  };
+};
+
+export const formatBitrate = (bps: number | null) =>
+  bps === null ? '-' : bps >= 1e6 ? `${(bps / 1e6).toFixed(1)} Mbps` : `${Math.round(bps / 1e3)} kbps`;
+
+export type PlaybackTestResult =
+  | { ok: true, quality: PlaybackQuality }
+  | { ok: false, reason: string };
+
+/**
+ * Deep test: plays a source muted in an off-screen video element for a few
+ * seconds and reports what the player measured
+ */
+export const testPlayback = async (source: Source, seconds = PLAYBACK_TEST_SECONDS): Promise<PlaybackTestResult> => {
+  const src = await resolvePlaybackUrl(source.url, source.httpOptions);
+  const video = document.createElement('video');
+  video.muted = true;
+  video.playsInline = true;
+  // Kept in the document (off-screen) so browsers keep decoding it
+  video.style.cssText = 'position:fixed;left:-10000px;top:0;width:320px;height:180px;pointer-events:none';
+  document.body.appendChild(video);
+
+  return new Promise(resolve => {
+    let session: StreamSession | null = null;
+    let tracker: PlaybackTracker | null = null;
+    let settled = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const finish = (result: PlaybackTestResult) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      tracker?.stop();
+      session?.destroy();
+      video.remove();
+      resolve(result);
+    };
+
+    video.addEventListener('playing', () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => finish({
+        ok: true,
+        quality: { ...tracker!.snapshot(), testedAt: Date.now(), duration: seconds }
+      }), seconds * 1000);
+    }, { once: true });
+
+    timer = setTimeout(() => finish({ ok: false, reason: '启动超时' }), PLAYBACK_START_TIMEOUT_MS);
+    const type = streamTypeOf(source);
+    attachStream(video, src, type, reason => finish({ ok: false, reason })).then(attached => {
+      if (settled) return attached?.destroy();
+      if (!attached) return finish({ ok: false, reason: unsupportedReason(type) });
+      session = attached;
+      tracker = trackPlayback(video, attached.hls);
+    }, e => finish({ ok: false, reason: String(e) }));
+  });
+};
@@ -0,0 +1,235 @@
+import { HttpOptions, ManifestInfo, ProbeResult, ProbeStage } from '../types';
+import { TIMEOUT_MS, MANIFEST_READ_LIMIT, SEGMENT_READ_LIMIT, PROBE_USER_AGENT } from '../constants';
+import { detectStreamType } from './streamType';
+
+export interface ProbeOptions {
+  timeoutMs?: number;
+  headers?: Record<string, string>;
+  // Browser-only: fetch mode. Failures in 'cors' mode are reported as 'error'
+  // because we can't tell a dead host apart from a missing CORS header.
+  mode?: RequestMode;
+  // Follow master -> media playlist -> first segment instead of stopping at the manifest
+  deep?: boolean;
+}
+
+/**
+ * Request headers for server-side fetches (Node may set User-Agent/Referer, browsers may not)
+ */
+export const requestHeaders = (http?: HttpOptions): Record<string, string> => {
+  const headers: Record<string, string> = { 'User-Agent': http?.userAgent || PROBE_USER_AGENT };
+  if (http?.referrer) headers['Referer'] = http.referrer;
+  return headers;
+};
+
+/**
+ * Maps the tallest RESOLUTION= attribute in a master playlist to a label (e.g. "1080P")
+ */
+export const resolutionLabel = (height: number) =>
+  height >= 1080 ? '1080P' : height >= 720 ? '720P' : `${height}P`;
+
+export const parseResolution = (text: string): string | undefined => {
+  const matches = [...text.matchAll(/RESOLUTION=(\d+)x(\d+)/g)];
+  if (matches.length === 0) return undefined;
+  return resolutionLabel(Math.max(...matches.map(m => parseInt(m[2], 10))));
+};
+
+export const parseManifestInfo = (text: string): ManifestInfo => {
+  const variantCount = (text.match(/#EXT-X-STREAM-INF/g) || []).length;
+  return {
+    isHls: text.trimStart().startsWith('#EXTM3U'),
+    isMaster: variantCount > 0,
+    variantCount
+  };
+};
+
+/**
+ * Reads at most `limit` bytes of a response body, then cancels the stream
+ * so live streams (raw TS/FLV) don't keep downloading.
+ */
+const readHeadBytes = async (response: Response, limit: number): Promise<Uint8Array> => {
+  if (!response.body) return new Uint8Array(0);
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  try {
+    while (size < limit) {
+      const { value, done } = await reader.read();
+      if (done || !value) break;
+      chunks.push(value);
+      size += value.length;
+    }
+  } finally {
+    reader.cancel().catch(() => {});
+  }
+
+  const buffer = new Uint8Array(size);
+  let offset = 0;
+  chunks.forEach(c => {
+    buffer.set(c, offset);
+    offset += c.length;
+  });
+  return buffer.subarray(0, limit);
+};
+
+const readHead = async (response: Response, limit: number): Promise<string> =>
+  new TextDecoder().decode(await readHeadBytes(response, limit));
+
+// Error responses are never read, release their connection right away
+const discard = <T>(response: Response, value: T): Promise<T> => {
+  response.body?.cancel().catch(() => {});
+  return Promise.resolve(value);
+};
+
+const isTextual = (contentType: string | undefined, url: string) => {
+  if (!contentType) return /\.m3u8?(\?|$)/i.test(url);
+  return /mpegurl|text\/|json|xml/i.test(contentType);
+};
+
+/**
+ * Lists the URIs of an HLS playlist (variant playlists for a master, segments for a media playlist)
+ */
+export const parsePlaylistUris = (text: string, baseUrl: string): string[] =>
+  text
+    .split('\n')
+    .map(l => l.trim())
+    .filter(l => l && !l.startsWith('#'))
+    .map(l => {
+      try {
+        return new URL(l, baseUrl).href;
+      } catch (e) {
+        return '';
+      }
+    })
+    .filter(Boolean);
+
+const errorMessage = (e: unknown) => e instanceof Error ? e.message : String(e);
+
+/**
+ * fetch() with its own timeout; the timer also covers reading the body via `read`
+ */
+const timedFetch = async <T>(
+  url: string,
+  init: RequestInit,
+  timeoutMs: number,
+  read: (response: Response) => Promise<T>
+): Promise<{ response: Response, body: T, latency: number }> => {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(new Error('timeout')), timeoutMs);
+  const start = performance.now();
+  try {
+    const response = await fetch(url, { ...init, redirect: 'follow', signal: controller.signal });
+    const latency = Math.round(performance.now() - start);
+    const body = await read(response);
+    return { response, body, latency };
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+type DeepOutcome = Pick<ProbeResult, 'segmentUrl' | 'error'> & { failedStage?: ProbeStage };
+
+/**
+ * Walks a playlist down to one media segment. Resolves with the stage that failed, if any.
+ */
+const probeMedia = async (
+  manifestText: string,
+  manifestUrl: string,
+  init: RequestInit,
+  timeoutMs: number
+): Promise<DeepOutcome> => {
+  let playlistText = manifestText;
+  let playlistUrl = manifestUrl;
+
+  // 1. Master playlist: resolve the first variant and fetch its media playlist
+  if (parseManifestInfo(manifestText).isMaster) {
+    const variantUrl = parsePlaylistUris(manifestText, manifestUrl)[0];
+    if (!variantUrl) return { failedStage: 'playlist', error: 'No variant URI in master playlist' };
+    try {
+      const { response, body } = await timedFetch(variantUrl, init, timeoutMs, r =>
+        r.ok ? readHead(r, MANIFEST_READ_LIMIT) : discard(r, ''));
+      if (!response.ok) return { failedStage: 'playlist', error: `Variant playlist HTTP ${response.status}` };
+      if (!body.trimStart().startsWith('#EXTM3U')) return { failedStage: 'playlist', error: 'Variant is not an HLS playlist' };
+      playlistText = body;
+      playlistUrl = response.url || variantUrl;
+    } catch (e) {
+      return { failedStage: 'playlist', error: errorMessage(e) };
+    }
+  }
+
+  // 2. Media playlist: pick a segment. Live windows drop their oldest segments first,
+  // so take the newest one unless the playlist is complete (VOD).
+  const segments = parsePlaylistUris(playlistText, playlistUrl);
+  if (segments.length === 0) return { failedStage: 'playlist', error: 'No segments in media playlist' };
+  const segmentUrl = playlistText.includes('#EXT-X-ENDLIST') ? segments[0] : segments[segments.length - 1];
+
+  // 3. Download the head of the segment
+  try {
+    const { response, body } = await timedFetch(segmentUrl, init, timeoutMs, async r => {
+      if (!r.ok) return discard(r, 0);
+      return (await readHeadBytes(r, SEGMENT_READ_LIMIT)).length;
+    });
+    if (!response.ok) return { failedStage: 'segment', segmentUrl, error: `Segment HTTP ${response.status}` };
+    if (body === 0) return { failedStage: 'segment', segmentUrl, error: 'Empty segment' };
+    return { segmentUrl };
+  } catch (e) {
+    return { failedStage: 'segment', segmentUrl, error: errorMessage(e) };
+  }
+};
+
+/**
+ * Fetches a single stream URL and reports reachability, latency and manifest info.
+ * With `deep`, HLS sources are only 'online' once a segment actually downloads.
+ * Shared by the browser (direct mode) and the Node probe service.
+ */
+export const probeUrl = async (url: string, options: ProbeOptions = {}): Promise<Omit<ProbeResult, 'via'>> => {
+  const { timeoutMs = TIMEOUT_MS, headers, mode, deep = false } = options;
+  const init: RequestInit = { method: 'GET', headers, mode };
+
+  try {
+    const { response, body: text, latency } = await timedFetch(url, init, timeoutMs, async r => {
+      if (r.ok && (deep || isTextual(r.headers.get('content-type') || undefined, r.url || url))) {
+        return readHead(r, MANIFEST_READ_LIMIT).catch(() => '');
+      }
+      return discard(r, '');
+    });
+    const contentType = response.headers.get('content-type') || undefined;
+    const finalUrl = response.url && response.url !== url ? response.url : undefined;
+
+    if (!response.ok) {
+      return { status: 'offline', latency: null, httpStatus: response.status, finalUrl, contentType, failedStage: deep ? 'manifest' : undefined, streamType: detectStreamType(url) };
+    }
+
+    const manifest = text ? parseManifestInfo(text) : undefined;
+    const result: Omit<ProbeResult, 'via'> = {
+      status: 'online',
+      latency,
+      resolution: text ? parseResolution(text) : undefined,
+      httpStatus: response.status,
+      finalUrl,
+      contentType,
+      manifest,
+      streamType: manifest?.isHls ? 'hls' : detectStreamType(response.url || url, contentType)
+    };
+
+    if (deep && manifest?.isHls) {
+      const outcome = await probeMedia(text, response.url || url, init, timeoutMs);
+      result.segmentUrl = outcome.segmentUrl;
+      if (outcome.failedStage) {
+        result.status = 'degraded';
+        result.failedStage = outcome.failedStage;
+        result.error = outcome.error;
+      }
+    }
+    return result;
+  } catch (e) {
+    const timedOut = errorMessage(e) === 'timeout' || (e instanceof Error && e.name === 'AbortError');
+    return {
+      // In 'cors' mode a thrown fetch is ambiguous; anywhere else it's a real failure
+      status: mode === 'cors' && !timedOut ? 'error' : 'offline',
+      latency: null,
+      failedStage: deep ? 'manifest' : undefined,
+      streamType: detectStreamType(url),
+      error: timedOut ? 'timeout' : errorMessage(e)
+    };
+  }
+};
@@ -0,0 +1,118 @@
+import { Channel, ClientNetwork, Source } from '../types';
+import { RELIABILITY_MIN_SAMPLES, SAME_ISP_BONUS } from '../constants';
+import { isPlayable } from './streamType';
+import { isReachable } from './network';
+
+// What this client can reach, see setClientNetwork
+let client: ClientNetwork = { ipv6: null, isp: null };
+
+/**
+ * Tells the ranking what network this client is on. Channels ranked earlier
+ * keep their order until they are ranked again (see rerankChannels).
+ */
+export const setClientNetwork = (network: ClientNetwork) => {
+  client = network;
+};
+
+/**
+ * Long-term reliability in 0..1. Sources without enough history count as average.
+ */
+const reliabilityFactor = (s: Source): number => {
+  const r = s.reliability;
+  if (!r || r.samples < RELIABILITY_MIN_SAMPLES || r.uptime === null) return 0.5;
+  return r.uptime;
+};
+
+/**
+ * Typical latency: the historical median once there is enough history, else the latest result
+ */
+const typicalLatency = (s: Source): number => {
+  const r = s.reliability;
+  if (r && r.samples >= RELIABILITY_MIN_SAMPLES && r.p50 !== null) return r.p50;
+  return s.latency || 0;
+};
+
+/**
+ * Cost of what a deep test saw: slow start, rebuffering and dropped frames.
+ * Untested sources pay nothing, so a test only moves a source by what it found.
+ */
+const playbackPenalty = (s: Source): number => {
+  const q = s.quality;
+  if (!q) return 0;
+  const stallShare = q.duration > 0 ? Math.min(1, q.stallMs / (q.duration * 1000)) : 0;
+  const dropShare = q.totalFrames > 0 ? q.droppedFrames / q.totalFrames : 0;
+  return Math.min(q.ttff ?? 10000, 10000) / 2 + stallShare * 20000 + dropShare * 5000;
+};
+
+/**
+ * Sources on the user's carrier usually play smoother than ones across carriers
+ */
+const ispBonus = (s: Source): number => {
+  const isp = s.network?.isp;
+  if (!client.isp || !isp) return 0;
+  return isp === client.isp ? SAME_ISP_BONUS : -SAME_ISP_BONUS;
+};
+
+/**
+ * Higher is better: Online > Unknown(Error) > Degraded > Checking > Offline/Idle,
+ * then sources this client can't reach (IPv6 without IPv6 connectivity),
+ * with sources a browser can't play (RTMP, P2P...) last of all.
+ * Within a tier, long-term uptime outweighs latency, so a source that is fast
+ * today but usually down ranks below one that is a bit slower but always up,
+ * and deep-tested playback quality counts against the latency budget.
+ * Online sources on the user's carrier get ahead of those on another one.
+ */
+export const sourceScore = (s: Source): number => {
+  if (!isPlayable(s)) return -1;
+  if (!isReachable(s, client)) return -0.5;
+  const reliability = reliabilityFactor(s);
+  if (s.status === 'online') return 100000 + reliability * 20000 - Math.min(typicalLatency(s), 10000) - playbackPenalty(s) + ispBonus(s);
+  if (s.status === 'error') return 50000 + reliability * 1000; // Prioritize error over offline/idle, as it might just be CORS
+  if (s.status === 'degraded') return 1000 + reliability * 100; // Manifest answers but media doesn't, still better than nothing
+  if (s.status === 'checking') return 100;
+  return reliability * 10;
+};
+
+/**
+ * Returns a new array of sources ordered best-first
+ */
+export const rankSources = (sources: Source[]): Source[] =>
+  [...sources].sort((a, b) => sourceScore(b) - sourceScore(a));
+
+export interface SourceUpdate {
+  channelId: string;
+  sourceId: string;
+  changes: Partial<Source>;
+}
+
+/**
+ * Applies many source updates in one pass: channels are looked up by id and
+ * each touched channel is re-ranked once, untouched ones keep their identity.
+ */
+export const applySourceUpdates = (channels: Channel[], updates: SourceUpdate[], rerank = true): Channel[] => {
+  if (updates.length === 0) return channels;
+  const byChannel = new Map<string, Map<string, Partial<Source>>>();
+  updates.forEach(({ channelId, sourceId, changes }) => {
+    let bySource = byChannel.get(channelId);
+    if (!bySource) byChannel.set(channelId, bySource = new Map());
+    bySource.set(sourceId, { ...bySource.get(sourceId), ...changes });
+  });
+
+  return channels.map(ch => {
+    const bySource = byChannel.get(ch.id);
+    if (!bySource) return ch;
+    const sources = ch.sources.map(s => bySource.has(s.id) ? { ...s, ...bySource.get(s.id) } : s);
+    if (!rerank) return { ...ch, sources };
+    const ranked = rankSources(sources);
+    return { ...ch, sources: ranked, bestSource: ranked[0] };
+  });
+};
+
+/**
+ * Re-ranks every channel, e.g. after the client network changed
+ */
+export const rerankChannels = (channels: Channel[]): Channel[] =>
+  channels.map(ch => {
+    const ranked = rankSources(ch.sources);
+    return { ...ch, sources: ranked, bestSource: ranked[0] };
+  });
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { CheckRun, CheckRunEntry } from '../types';
+import { LATENCY_REGRESSION_MS, LATENCY_REGRESSION_RATIO } from '../constants';
+import { buildReport, reportToCsv } from './report';
+
+const entry = (sourceId: string, status: CheckRunEntry['status'], latency: number | null, extra: Partial<CheckRunEntry> = {}): CheckRunEntry => ({
+  sourceId,
+  channelId: 'hunan',
+  channel: '湖南卫视',
+  group: '卫视',
+  playlists: ['YueChan'],
+  url: `http://a.tv/${sourceId}`,
+  status,
+  latency,
+  ...extra
+});
+
+const run = (id: string, entries: CheckRunEntry[]): CheckRun => ({ id, startedAt: 0, finishedAt: 1, cancelled: false, entries });
+
+describe('buildReport', () => {
+  it.each([
+    ['online to offline', entry('a', 'online', 100), entry('a', 'offline', null), 'dead'],
+    ['online to degraded', entry('a', 'online', 100), entry('a', 'degraded', 900), 'dead'],
+    ['online to a CORS error', entry('a', 'online', 100), entry('a', 'error', null), undefined],
+    ['offline to online', entry('a', 'offline', null), entry('a', 'online', 100), 'alive'],
+    ['a CORS error to online', entry('a', 'error', null), entry('a', 'online', 100), 'alive'],
+    ['slower past both thresholds', entry('a', 'online', 400), entry('a', 'online', 400 * LATENCY_REGRESSION_RATIO), 'slower'],
+    ['slower by the ratio only', entry('a', 'online', 100), entry('a', 'online', 100 + LATENCY_REGRESSION_MS - 1), undefined],
+    ['slower by the margin only', entry('a', 'online', 1000), entry('a', 'online', 1000 * LATENCY_REGRESSION_RATIO - 1), undefined],
+    ['faster', entry('a', 'online', 800), entry('a', 'online', 100), undefined],
+    ['still offline', entry('a', 'offline', null), entry('a', 'offline', null), undefined]
+  ] as [string, CheckRunEntry, CheckRunEntry, string | undefined][])('%s', (_, before, after, change) => {
+    const report = buildReport(run('2', [after]), run('1', [before]));
+    expect(report.entries[0]).toMatchObject({ previousStatus: before.status, previousLatency: before.latency, change });
+    expect(report.newlyDead.length + report.newlyAlive.length + report.slower.length).toBe(change ? 1 : 0);
+  });
+
+  it('leaves sources the previous run did not check without a change', () => {
+    const report = buildReport(run('2', [entry('new', 'offline', null)]), run('1', [entry('old', 'online', 100)]));
+    expect(report.entries[0].previousStatus).toBeUndefined();
+    expect(report.entries[0].change).toBeUndefined();
+    expect(report.previous?.id).toBe('1');
+  });
+
+  it('counts per playlist and group, with shared sources counted for each playlist', () => {
+    const report = buildReport(run('1', [
+      entry('a', 'online', 100, { playlists: ['YueChan', 'Free'] }),
+      entry('b', 'offline', null),
+      entry('c', 'error', null, { channelId: 'cctv1', channel: 'CCTV-1', group: '央视', playlists: ['Free'] })
+    ]));
+    expect(report.totals).toEqual({ name: '全部', total: 3, online: 1, degraded: 0, offline: 1, cors: 1 });
+    expect(report.byPlaylist).toEqual([
+      { name: 'YueChan', total: 2, online: 1, degraded: 0, offline: 1, cors: 0 },
+      { name: 'Free', total: 2, online: 1, degraded: 0, offline: 0, cors: 1 }
+    ]);
+    expect(report.byGroup.map(g => [g.name, g.total])).toEqual([['卫视', 2], ['央视', 1]]);
+    expect(report.deadChannels).toEqual([{ channelId: 'cctv1', channel: 'CCTV-1', group: '央视', sources: 1 }]);
+  });
+
+  it('ranks online sources by latency and the regressions by how much they slowed', () => {
+    const report = buildReport(
+      run('2', [entry('a', 'online', 900), entry('b', 'online', 50), entry('c', 'online', 2000), entry('d', 'offline', null)]),
+      run('1', [entry('a', 'online', 100), entry('c', 'online', 1000)])
+    );
+    expect(report.fastest.map(e => e.sourceId)).toEqual(['b', 'a', 'c']);
+    expect(report.slowest.map(e => e.sourceId)).toEqual(['c', 'a', 'b']);
+    expect(report.slower.map(e => e.sourceId)).toEqual(['c', 'a']);
+  });
+
+  it('reports an empty run', () => {
+    const report = buildReport(run('1', []));
+    expect(report.totals).toEqual({ name: '全部', total: 0, online: 0, degraded: 0, offline: 0, cors: 0 });
+    expect(report.previous).toBeUndefined();
+  });
+});
+
+describe('reportToCsv', () => {
+  it('quotes cells with commas and labels the change', () => {
+    const csv = reportToCsv(buildReport(
+      run('2', [entry('a', 'offline', null, { channel: 'CCTV-5, 体育', url: 'http://a.tv/"x"' })]),
+      run('1', [entry('a', 'online', 120)])
+    ));
+    expect(csv.startsWith('\ufeff订阅,分组,频道,地址,状态')).toBe(true);
+    expect(csv.split('\r\n')[1]).toBe('YueChan,卫视,"CCTV-5, 体育","http://a.tv/""x""",失效,,在线,120,新失效');
+  });
+});
@@ -0,0 +1,189 @@
+import { CheckRun, CheckRunEntry } from '../types';
+import {
+  REPORT_RUNS_KEPT, REPORT_TOP_N, LATENCY_REGRESSION_RATIO, LATENCY_REGRESSION_MS
+} from '../constants';
+import { idbDelete, idbEntries, idbPut } from './idb';
+
+export interface StatusCounts {
+  name: string;
+  total: number;
+  online: number;
+  degraded: number;
+  offline: number;
+  cors: number; // 'error': the browser couldn't tell
+}
+
+export type EntryChange = 'dead' | 'alive' | 'slower';
+
+export interface ReportEntry extends CheckRunEntry {
+  previousStatus?: CheckRunEntry['status']; // Unset when the previous run didn't check this source
+  previousLatency?: number | null;
+  change?: EntryChange;
+}
+
+export interface DeadChannel {
+  channelId: string;
+  channel: string;
+  group: string;
+  sources: number;
+}
+
+export interface CheckReport {
+  run: Omit<CheckRun, 'entries'>;
+  previous?: Omit<CheckRun, 'entries'>;
+  totals: StatusCounts;
+  byPlaylist: StatusCounts[];
+  byGroup: StatusCounts[];
+  fastest: ReportEntry[];
+  slowest: ReportEntry[];
+  deadChannels: DeadChannel[]; // No online source in this run
+  newlyDead: ReportEntry[];
+  newlyAlive: ReportEntry[];
+  slower: ReportEntry[];
+  entries: ReportEntry[];
+}
+
+export const STATUS_LABELS: Record<CheckRunEntry['status'], string> = {
+  online: '在线',
+  degraded: '降级',
+  offline: '失效',
+  error: 'CORS'
+};
+
+const CHANGE_LABELS: Record<EntryChange, string> = {
+  dead: '新失效',
+  alive: '恢复',
+  slower: '变慢'
+};
+
+const STATUS_KEYS: Record<CheckRunEntry['status'], keyof Omit<StatusCounts, 'name' | 'total'>> = {
+  online: 'online',
+  degraded: 'degraded',
+  offline: 'offline',
+  error: 'cors'
+};
+
+const emptyCounts = (name: string): StatusCounts => ({ name, total: 0, online: 0, degraded: 0, offline: 0, cors: 0 });
+
+// A source listed by several playlists counts towards each of them
+const countBy = (entries: CheckRunEntry[], keys: (entry: CheckRunEntry) => string[]): StatusCounts[] => {
+  const counts = new Map<string, StatusCounts>();
+  entries.forEach(entry => keys(entry).forEach(name => {
+    let c = counts.get(name);
+    if (!c) counts.set(name, c = emptyCounts(name));
+    c.total++;
+    c[STATUS_KEYS[entry.status]]++;
+  }));
+  return Array.from(counts.values()).sort((a, b) => b.total - a.total);
+};
+
+// Dead means the server answered and the stream isn't there; a CORS result proves nothing either way
+const isDead = (status: CheckRunEntry['status']) => status === 'offline' || status === 'degraded';
+
+const changeOf = (entry: CheckRunEntry, before?: CheckRunEntry): EntryChange | undefined => {
+  if (!before) return undefined;
+  if (before.status === 'online' && isDead(entry.status)) return 'dead';
+  if (before.status !== 'online' && entry.status === 'online') return 'alive';
+  if (
+    before.status === 'online' && entry.status === 'online'
+    && before.latency !== null && entry.latency !== null
+    && entry.latency >= before.latency * LATENCY_REGRESSION_RATIO
+    && entry.latency - before.latency >= LATENCY_REGRESSION_MS
+  ) return 'slower';
+  return undefined;
+};
+
+const withoutEntries = ({ entries, ...run }: CheckRun) => run;
+
+/**
+ * Summarizes a run and, given the run before it, what changed per source
+ */
+export const buildReport = (run: CheckRun, previous?: CheckRun): CheckReport => {
+  const before = new Map(previous?.entries.map(e => [e.sourceId, e]));
+  const entries: ReportEntry[] = run.entries.map(entry => {
+    const prev = before.get(entry.sourceId);
+    return { ...entry, previousStatus: prev?.status, previousLatency: prev?.latency, change: changeOf(entry, prev) };
+  });
+
+  const online = entries
+    .filter(e => e.status === 'online' && e.latency !== null)
+    .sort((a, b) => a.latency! - b.latency!);
+
+  const channels = new Map<string, DeadChannel & { alive: boolean }>();
+  entries.forEach(e => {
+    let ch = channels.get(e.channelId);
+    if (!ch) channels.set(e.channelId, ch = { channelId: e.channelId, channel: e.channel, group: e.group, sources: 0, alive: false });
+    ch.sources++;
+    if (e.status === 'online') ch.alive = true;
+  });
+
+  return {
+    run: withoutEntries(run),
+    previous: previous && withoutEntries(previous),
+    totals: countBy(entries, () => ['全部'])[0] ?? emptyCounts('全部'),
+    byPlaylist: countBy(entries, e => e.playlists),
+    byGroup: countBy(entries, e => [e.group]),
+    fastest: online.slice(0, REPORT_TOP_N),
+    slowest: online.slice(-REPORT_TOP_N).reverse(),
+    deadChannels: Array.from(channels.values()).filter(ch => !ch.alive).map(({ alive, ...ch }) => ch),
+    newlyDead: entries.filter(e => e.change === 'dead'),
+    newlyAlive: entries.filter(e => e.change === 'alive'),
+    slower: entries.filter(e => e.change === 'slower').sort((a, b) => (b.latency! - b.previousLatency!) - (a.latency! - a.previousLatency!)),
+    entries
+  };
+};
+
+const csvCell = (value: string | number | null | undefined) => {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * One row per checked source, with its change since the previous run.
+ * Starts with a BOM so spreadsheet apps read the Chinese names as UTF-8.
+ */
+export const reportToCsv = (report: CheckReport): string => {
+  const header = ['订阅', '分组', '频道', '地址', '状态', '延迟(ms)', '上次状态', '上次延迟(ms)', '变化'];
+  const rows = report.entries.map(e => [
+    e.playlists.join(' / '),
+    e.group,
+    e.channel,
+    e.url,
+    STATUS_LABELS[e.status],
+    e.latency,
+    e.previousStatus && STATUS_LABELS[e.previousStatus],
+    e.previousLatency,
+    e.change && CHANGE_LABELS[e.change]
+  ]);
+  return '\ufeff' + [header, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n');
+};
+
+export const reportToJson = (report: CheckReport): string => JSON.stringify(report, null, 2);
+
+/**
+ * Stored runs, oldest first
+ */
+export const loadRuns = async (): Promise<CheckRun[]> => {
+  try {
+    const runs = (await idbEntries<CheckRun>('runs')).map(([, run]) => run);
+    return runs.sort((a, b) => a.startedAt - b.startedAt);
+  } catch (e) {
+    console.warn('Failed to load check runs', e);
+    return [];
+  }
+};
+
+/**
+ * Stores a run and drops the oldest beyond REPORT_RUNS_KEPT; returns what is kept
+ */
+export const saveRun = async (run: CheckRun, existing: CheckRun[]): Promise<CheckRun[]> => {
+  const runs = [...existing, run];
+  const dropped = runs.splice(0, Math.max(0, runs.length - REPORT_RUNS_KEPT));
+  try {
+    await idbPut('runs', run.id, run);
+    await Promise.all(dropped.map(old => idbDelete('runs', old.id)));
+  } catch (e) {
+    console.warn('Failed to save check run', e);
+  }
+  return runs;
+};
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { runScheduled } from './scheduler';
+
+interface Task {
+  url: string;
+  priority?: number;
+}
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 1));
+
+describe('runScheduled', () => {
+  it('reports a rejecting worker through onDone and frees its slot and host cap', async () => {
+    const tasks: Task[] = [{ url: 'http://a.tv/1' }, { url: 'http://a.tv/2' }, { url: 'http://a.tv/3' }];
+    const done: [string, string][] = [];
+    let running = 0;
+    let maxRunning = 0;
+
+    const result = await runScheduled(
+      tasks,
+      async task => {
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+        await tick();
+        running--;
+        if (task.url.endsWith('/1')) throw new Error('boom');
+        return 'ok';
+      },
+      (task, outcome) => done.push([task.url, outcome]),
+      (_, e) => `failed: ${(e as Error).message}`,
+      { concurrency: 2, perHost: 1 }
+    );
+
+    expect(done).toEqual([['http://a.tv/1', 'failed: boom'], ['http://a.tv/2', 'ok'], ['http://a.tv/3', 'ok']]);
+    expect(maxRunning).toBe(1);
+    expect(result).toEqual({ cancelled: false, pending: [] });
+  });
+
+  it('runs higher priority first and caps each host', async () => {
+    const tasks: Task[] = [
+      { url: 'http://a.tv/low', priority: 0 },
+      { url: 'http://a.tv/high', priority: 2 },
+      { url: 'http://b.tv/mid', priority: 1 }
+    ];
+    const started: string[] = [];
+    await runScheduled(
+      tasks,
+      async task => {
+        started.push(task.url);
+        await tick();
+      },
+      () => {},
+      () => undefined,
+      { concurrency: 2, perHost: 1 }
+    );
+    expect(started).toEqual(['http://a.tv/high', 'http://b.tv/mid', 'http://a.tv/low']);
+  });
+
+  it('leaves tasks that never started as pending when aborted', async () => {
+    const controller = new AbortController();
+    const tasks: Task[] = [{ url: 'http://a.tv/1' }, { url: 'http://a.tv/2' }];
+    const result = await runScheduled(
+      tasks,
+      async () => {
+        controller.abort();
+        await tick();
+      },
+      () => {},
+      () => undefined,
+      { concurrency: 1, perHost: 1, signal: controller.signal }
+    );
+    expect(result).toEqual({ cancelled: true, pending: [tasks[1]] });
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * Probe scheduler shared by the app and the CLI: a sliding window of workers
+ * (a slow source only occupies its own slot) with a per-host cap, so one big
+ * server isn't hammered while others sit idle.
+ */
+
+export interface ScheduledTask {
+  url: string;
+  priority?: number; // Higher runs first; ties keep the input order
+}
+
+export interface ScheduleOptions {
+  concurrency: number;
+  perHost: number;
+  signal?: AbortSignal; // Stops dispatching; tasks already running finish
+}
+
+export interface ScheduleResult<T> {
+  cancelled: boolean;
+  pending: T[]; // Tasks that never started
+}
+
+interface HostQueue<T> {
+  items: { task: T, seq: number }[];
+  next: number;
+  active: number;
+}
+
+export const hostOf = (url: string) => {
+  try {
+    return new URL(url).host.toLowerCase();
+  } catch {
+    return url;
+  }
+};
+
+/**
+ * Runs `worker` over every task, calling `onDone` as each one completes.
+ * A rejected worker is turned into a result by `onError`, so every started
+ * task reaches `onDone` and its slot is always freed.
+ */
+export const runScheduled = <T extends ScheduledTask, R>(
+  tasks: T[],
+  worker: (task: T) => Promise<R>,
+  onDone: (task: T, result: R) => void,
+  onError: (task: T, error: unknown) => R,
+  { concurrency, perHost, signal }: ScheduleOptions
+): Promise<ScheduleResult<T>> => {
+  const ordered = tasks
+    .map((task, seq) => ({ task, seq }))
+    .sort((a, b) => (b.task.priority || 0) - (a.task.priority || 0) || a.seq - b.seq);
+
+  const hosts = new Map<string, HostQueue<T>>();
+  ordered.forEach(entry => {
+    const host = hostOf(entry.task.url);
+    let queue = hosts.get(host);
+    if (!queue) hosts.set(host, queue = { items: [], next: 0, active: 0 });
+    queue.items.push(entry);
+  });
+
+  // Highest-priority head among hosts that still have a free slot
+  const pick = (): HostQueue<T> | undefined => {
+    let best: HostQueue<T> | undefined;
+    hosts.forEach(queue => {
+      if (queue.next >= queue.items.length || queue.active >= perHost) return;
+      const head = queue.items[queue.next];
+      if (!best) {
+        best = queue;
+        return;
+      }
+      const current = best.items[best.next];
+      const diff = (head.task.priority || 0) - (current.task.priority || 0);
+      if (diff > 0 || (diff === 0 && head.seq < current.seq)) best = queue;
+    });
+    return best;
+  };
+
+  const run = async (task: T) => {
+    let result: R;
+    try {
+      result = await worker(task);
+    } catch (e) {
+      result = onError(task, e);
+    }
+    onDone(task, result);
+  };
+
+  return new Promise(resolve => {
+    let active = 0;
+    let finished = false;
+
+    const finish = () => {
+      if (finished) return;
+      finished = true;
+      signal?.removeEventListener('abort', pump);
+      const pending: T[] = [];
+      hosts.forEach(queue => {
+        for (let i = queue.next; i < queue.items.length; i++) pending.push(queue.items[i].task);
+      });
+      resolve({ cancelled: !!signal?.aborted, pending });
+    };
+
+    function pump() {
+      while (!signal?.aborted && active < concurrency) {
+        const queue = pick();
+        if (!queue) break;
+        const { task } = queue.items[queue.next++];
+        queue.active++;
+        active++;
+        run(task)
+          .catch(e => console.warn('Probe result handling failed', task.url, e))
+          .finally(() => {
+            queue.active--;
+            active--;
+            pump();
+          });
+      }
+      if (active === 0) finish();
+    }
+
+    signal?.addEventListener('abort', pump);
+    pump();
+  });
+};
@@ -0,0 +1,21 @@
+/**
+ * JSON settings persisted in localStorage under a common prefix
+ */
+const PREFIX = 'iptv-monitor:';
+
+export const loadSetting = <T>(key: string, fallback: T): T => {
+  try {
+    const raw = localStorage.getItem(PREFIX + key);
+    return raw === null ? fallback : JSON.parse(raw) as T;
+  } catch (e) {
+    return fallback;
+  }
+};
+
+export const saveSetting = (key: string, value: unknown) => {
+  try {
+    localStorage.setItem(PREFIX + key, JSON.stringify(value));
+  } catch (e) {
+    console.warn(`Failed to save setting ${key}`, e);
+  }
+};
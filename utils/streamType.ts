@@ -0,0 +1,64 @@
+import { Source, StreamType } from '../types';
+
+const P2P_SCHEMES = ['p2p', 'p3p', 'p5p', 'p6p', 'p8p', 'mitv', 'tvbus'];
+
+/**
+ * Lower-cased URL scheme, with the various P2P client schemes folded into "p2p"
+ */
+export const urlScheme = (url: string): string => {
+  const scheme = url.slice(0, Math.max(0, url.indexOf(':'))).toLowerCase();
+  return P2P_SCHEMES.includes(scheme) ? 'p2p' : scheme;
+};
+
+export const STREAM_TYPE_LABELS: Record<StreamType, string> = {
+  hls: 'HLS',
+  flv: 'FLV',
+  mpegts: 'TS',
+  dash: 'DASH',
+  mp4: 'MP4',
+  rtmp: 'RTMP',
+  rtsp: 'RTSP',
+  udp: 'UDP',
+  p2p: 'P2P',
+  unknown: '未知'
+};
+
+// What a browser can play: natively, via hls.js, mpegts.js (MSE) or dash.js.
+// Unknown HTTP links are usually HLS behind a script URL, so they get a try.
+const PLAYABLE = new Set<StreamType>(['hls', 'flv', 'mpegts', 'dash', 'mp4', 'unknown']);
+
+const CONTENT_TYPES: [RegExp, StreamType][] = [
+  [/mpegurl/i, 'hls'],
+  [/x-flv/i, 'flv'],
+  [/mp2t/i, 'mpegts'],
+  [/dash\+xml/i, 'dash'],
+  [/video\/mp4/i, 'mp4']
+];
+
+/**
+ * Stream type from the URL, refined by the response Content-Type once a check has seen it.
+ * Generic types (octet-stream, text/plain) fall back to the URL.
+ */
+export const detectStreamType = (url: string, contentType?: string): StreamType => {
+  const scheme = urlScheme(url);
+  if (scheme === 'rtmp' || scheme === 'rtmps') return 'rtmp';
+  if (scheme === 'rtsp') return 'rtsp';
+  if (scheme === 'udp' || scheme === 'rtp') return 'udp';
+  if (scheme === 'p2p') return 'p2p';
+
+  const byHeader = contentType ? CONTENT_TYPES.find(([re]) => re.test(contentType)) : undefined;
+  if (byHeader) return byHeader[1];
+
+  const path = url.split(/[?#]/)[0].toLowerCase();
+  if (path.endsWith('.m3u8') || path.endsWith('.m3u')) return 'hls';
+  if (path.endsWith('.flv')) return 'flv';
+  // udpxy relays multicast as raw TS: http://host:port/udp/239.0.0.1:1234
+  if (path.endsWith('.ts') || /\/(udp|rtp)\/\d/.test(path)) return 'mpegts';
+  if (path.endsWith('.mpd')) return 'dash';
+  if (path.endsWith('.mp4')) return 'mp4';
+  return 'unknown';
+};
+
+export const streamTypeOf = (source: Source): StreamType => source.streamType ?? detectStreamType(source.url);
+
+export const isPlayable = (source: Source) => PLAYABLE.has(streamTypeOf(source));
@@ -0,0 +1,53 @@
+import { Subscription } from '../types';
+import { PRESETS } from '../constants';
+import { detectProbeProxy, resolveFetchUrl } from './checker';
+import { idbGet, idbPut, idbDelete } from './idb';
+
+export const generateSubscriptionId = () => `sub-${Math.random().toString(36).substr(2, 9)}`;
+
+/**
+ * First-run subscriptions, seeded from the built-in PRESETS
+ */
+export const defaultSubscriptions = (): Subscription[] =>
+  PRESETS.map((preset, i) => ({
+    id: `preset-${i}`,
+    name: preset.name,
+    kind: 'url',
+    url: preset.url,
+    category: preset.category,
+    enabled: true,
+    refreshMinutes: 0
+  }));
+
+export const isDue = (sub: Subscription, now: number) =>
+  sub.enabled
+  && sub.kind === 'url'
+  && sub.refreshMinutes > 0
+  && (!sub.lastFetchedAt || now - sub.lastFetchedAt >= sub.refreshMinutes * 60 * 1000);
+
+// Pasted/uploaded playlist content is too large for localStorage
+export const saveContent = (id: string, content: string) => idbPut('playlists', id, content);
+export const deleteContent = (id: string) => idbDelete('playlists', id);
+
+/**
+ * Loads a subscription's playlist text. URLs are fetched directly first and
+ * retried through the probe service relay when the browser blocks them.
+ */
+export const fetchSubscription = async (sub: Subscription): Promise<string> => {
+  if (sub.kind !== 'url') {
+    const content = await idbGet<string>('playlists', sub.id);
+    if (content === undefined) throw new Error('内容丢失，请重新导入');
+    return content;
+  }
+  if (!sub.url) throw new Error('缺少地址');
+
+  let res: Response;
+  try {
+    res = await fetch(sub.url);
+  } catch (e) {
+    if (!(await detectProbeProxy())) throw e;
+    res = await fetch(await resolveFetchUrl(sub.url));
+  }
+  if (!res.ok) throw new Error(`HTTP ${res.status}`);
+  return res.text();
+};
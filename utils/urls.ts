@@ -0,0 +1,94 @@
+import { Channel, Source } from '../types';
+
+/**
+ * Playlists list the same stream in many spellings: per-visit tokens and
+ * timestamps in the query, a trailing slash, http vs https, upper-case hosts.
+ * Sources are compared by a canonical form that folds those differences away.
+ */
+
+export type UrlCanonicalizer = (url: string) => string;
+
+/**
+ * Compiles the list of ignored query parameters (matched case-insensitively)
+ * into a function from a URL to its comparison key. Keys are cached, the same
+ * URLs come back on every refresh and check.
+ */
+export const createCanonicalizer = (stripParams: string[]): UrlCanonicalizer => {
+  const ignored = new Set(stripParams.map(p => p.trim().toLowerCase()).filter(Boolean));
+  const cache = new Map<string, string>();
+
+  return (url: string) => {
+    let key = cache.get(url);
+    if (key !== undefined) return key;
+
+    try {
+      const parsed = new URL(url.trim());
+      const scheme = parsed.protocol.slice(0, -1).toLowerCase();
+      const port = parsed.port && !(scheme === 'http' && parsed.port === '80') && !(scheme === 'https' && parsed.port === '443')
+        ? `:${parsed.port}`
+        : '';
+      const auth = parsed.username ? `${parsed.username}${parsed.password ? `:${parsed.password}` : ''}@` : '';
+      const path = parsed.pathname.replace(/\/+$/, '');
+      const params = [...parsed.searchParams]
+        .filter(([name]) => !ignored.has(name.toLowerCase()))
+        .map(([name, value]) => `${name}=${value}`)
+        .sort();
+      // Both web schemes usually serve the same stream
+      key = `${scheme === 'https' ? 'http' : scheme}://${auth}${parsed.hostname.toLowerCase()}${port}${path}${params.length ? `?${params.join('&')}` : ''}`;
+    } catch {
+      key = url.trim();
+    }
+    cache.set(url, key);
+    return key;
+  };
+};
+
+/**
+ * Folds sources that turned out to be the same stream once redirects were
+ * followed into the best-ranked one, which keeps the others' URLs as aliases.
+ * Only the given channels are looked at; the rest are returned as they are.
+ */
+export const collapseRedirects = (channels: Channel[], channelIds: Set<string>, canonical: UrlCanonicalizer): Channel[] =>
+  channels.map(ch => {
+    if (!channelIds.has(ch.id) || !ch.sources.some(s => s.finalUrl)) return ch;
+
+    const kept = new Map<string, Source>();
+    let merged = false;
+    ch.sources.forEach(source => {
+      const key = canonical(source.finalUrl ?? source.url);
+      const first = kept.get(key);
+      if (!first) {
+        kept.set(key, source);
+        return;
+      }
+      merged = true;
+      kept.set(key, {
+        ...first,
+        aliases: [...first.aliases ?? [], source.url, ...source.aliases ?? []],
+        origins: [...first.origins, ...source.origins]
+      });
+    });
+    if (!merged) return ch;
+
+    const sources = [...kept.values()];
+    return { ...ch, sources, bestSource: sources[0] };
+  });
+
+/**
+ * Flags streams listed under more than one channel; a playlist has most
+ * likely put one of them under the wrong name
+ */
+export const markSharedUrls = (channels: Channel[], canonical: UrlCanonicalizer): void => {
+  const owners = new Map<string, Channel[]>();
+  channels.forEach(ch => ch.sources.forEach(source => {
+    const key = canonical(source.url);
+    const list = owners.get(key);
+    if (!list) owners.set(key, [ch]);
+    else if (!list.includes(ch)) list.push(ch);
+  }));
+
+  channels.forEach(ch => ch.sources.forEach(source => {
+    const list = owners.get(canonical(source.url))!;
+    if (list.length > 1) source.sharedWith = list.filter(other => other !== ch).map(other => other.name);
+  }));
+};
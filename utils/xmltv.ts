@@ -0,0 +1,115 @@
+import { EpgProgramme } from '../types';
+
+export interface XmltvChannel {
+  id: string;
+  names: string[]; // <display-name> values
+}
+
+export interface XmltvData {
+  channels: XmltvChannel[];
+  programmes: Record<string, EpgProgramme[]>; // by XMLTV channel id, sorted by start
+}
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+const decodeEntities = (text: string) =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, code: string) => {
+    if (code[0] === '#') {
+      const n = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isFinite(n) ? String.fromCodePoint(n) : match;
+    }
+    return ENTITIES[code.toLowerCase()] ?? match;
+  });
+
+const stripCdata = (text: string) => text.replace(/^<!\[CDATA\[([\s\S]*)\]\]>$/, '$1');
+
+const innerText = (xml: string, tag: string): string | undefined => {
+  const m = xml.match(new RegExp(`<${tag}\\b[^>]*>([\\s\\S]*?)</${tag}>`));
+  return m ? decodeEntities(stripCdata(m[1].trim())) : undefined;
+};
+
+const attr = (openTag: string, name: string): string | undefined => {
+  const m = openTag.match(new RegExp(`\\b${name}\\s*=\\s*("([^"]*)"|'([^']*)')`));
+  return m ? decodeEntities(m[2] ?? m[3]) : undefined;
+};
+
+/**
+ * Parses XMLTV timestamps: "20240101120000 +0800" (offset and seconds optional)
+ */
+export const parseXmltvTime = (value: string): number => {
+  const m = value.trim().match(/^(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})?\s*([+-]\d{2}):?(\d{2})?/)
+    || value.trim().match(/^(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})?/);
+  if (!m) return NaN;
+  const [, y, mo, d, h, mi, s = '00', oh, om] = m;
+  const utc = Date.UTC(+y, +mo - 1, +d, +h, +mi, +s);
+  if (!oh) return utc;
+  const sign = oh.startsWith('-') ? -1 : 1;
+  const offsetMin = sign * (Math.abs(parseInt(oh, 10)) * 60 + parseInt(om || '0', 10));
+  return utc - offsetMin * 60000;
+};
+
+/**
+ * Incremental XMLTV parser. Feed decoded text with `push` as it streams in,
+ * call `end` for the result. Programmes outside `window` are dropped to keep
+ * multi-day guides small.
+ */
+export const createXmltvParser = (window?: { from: number, to: number }) => {
+  let buffer = '';
+  const channels: XmltvChannel[] = [];
+  const programmes: Record<string, EpgProgramme[]> = {};
+  const elementRe = /<(channel|programme)\b([^>]*)>([\s\S]*?)<\/\1>/g;
+
+  const handle = (tag: string, attrs: string, body: string) => {
+    if (tag === 'channel') {
+      const id = attr(attrs, 'id');
+      if (!id) return;
+      const names = [...body.matchAll(/<display-name\b[^>]*>([\s\S]*?)<\/display-name>/g)]
+        .map(m => decodeEntities(stripCdata(m[1].trim())))
+        .filter(Boolean);
+      channels.push({ id, names });
+      return;
+    }
+
+    const channel = attr(attrs, 'channel');
+    const start = parseXmltvTime(attr(attrs, 'start') || '');
+    const stop = parseXmltvTime(attr(attrs, 'stop') || '');
+    if (!channel || !Number.isFinite(start)) return;
+    const end = Number.isFinite(stop) ? stop : start;
+    if (window && (end < window.from || start > window.to)) return;
+
+    (programmes[channel] ||= []).push({
+      start,
+      stop: end,
+      title: innerText(body, 'title') || '',
+      desc: innerText(body, 'desc')
+    });
+  };
+
+  const drain = () => {
+    elementRe.lastIndex = 0;
+    let consumed = 0;
+    let m: RegExpExecArray | null;
+    while ((m = elementRe.exec(buffer)) !== null) {
+      handle(m[1], m[2], m[3]);
+      consumed = elementRe.lastIndex;
+    }
+    buffer = buffer.slice(consumed);
+
+    // Drop leading noise (<tv>, comments) but keep a possibly incomplete element
+    const next = buffer.search(/<(channel|programme)\b/);
+    if (next > 0) buffer = buffer.slice(next);
+    else if (next === -1 && buffer.length > 64) buffer = buffer.slice(-64);
+  };
+
+  return {
+    push: (chunk: string) => {
+      buffer += chunk;
+      drain();
+    },
+    end: (): XmltvData => {
+      drain();
+      Object.values(programmes).forEach(list => list.sort((a, b) => a.start - b.start));
+      return { channels, programmes };
+    }
+  };
+};
@@ -0,0 +1,173 @@
+/**
+ * EPG worker: downloads/decompresses XMLTV guides, parses them off the main
+ * thread, caches the parsed index in IndexedDB and answers now/next lookups.
+ */
+import { EpgNowNext, EpgProgramme, NamingConfig } from '../types';
+import { EPG_CACHE_TTL_MS, EPG_WINDOW_PAST_MS, EPG_WINDOW_FUTURE_MS } from '../constants';
+import { createXmltvParser, XmltvData } from '../utils/xmltv';
+import { createNormalizer } from '../utils/naming';
+import { idbGet, idbPut } from '../utils/idb';
+import type { EpgRequest, EpgResponse, EpgSourceInput } from '../utils/epg';
+
+interface CachedGuide {
+  fetchedAt: number;
+  windowPast?: number; // EPG_WINDOW_PAST_MS it was parsed with; older caches lack it
+  data: XmltvData;
+}
+
+const ctx = self as unknown as {
+  postMessage: (message: EpgResponse) => void;
+  onmessage: ((event: MessageEvent<EpgRequest>) => void) | null;
+};
+
+// Merged index over every loaded guide
+let guides: XmltvData[] = [];
+let programmesById = new Map<string, EpgProgramme[]>();
+let idByName = new Map<string, string>();
+// Guide channels are matched by the same naming rules and aliases as the playlists
+let normalizeName = createNormalizer();
+
+const isGzip = (bytes: Uint8Array) => bytes.length > 1 && bytes[0] === 0x1f && bytes[1] === 0x8b;
+
+/**
+ * Streams bytes through gunzip (when the magic bytes say so) and the XMLTV parser
+ */
+const parseStream = async (stream: ReadableStream<Uint8Array>): Promise<XmltvData> => {
+  const now = Date.now();
+  const parser = createXmltvParser({ from: now - EPG_WINDOW_PAST_MS, to: now + EPG_WINDOW_FUTURE_MS });
+
+  // Peek at the first chunk to decide on decompression
+  const reader = stream.getReader();
+  const first = await reader.read();
+  const head = first.value || new Uint8Array(0);
+  const replay = new ReadableStream<Uint8Array>({
+    start(controller) {
+      if (head.length) controller.enqueue(head);
+    },
+    async pull(controller) {
+      const { value, done } = await reader.read();
+      if (done) controller.close();
+      else controller.enqueue(value);
+    },
+    cancel(reason) {
+      return reader.cancel(reason);
+    }
+  });
+
+  const bytes = isGzip(head)
+    ? replay.pipeThrough(new DecompressionStream('gzip') as unknown as ReadableWritablePair<Uint8Array, Uint8Array>)
+    : replay;
+
+  const textReader = bytes.pipeThrough(new TextDecoderStream()).getReader();
+  while (true) {
+    const { value, done } = await textReader.read();
+    if (done) break;
+    parser.push(value);
+  }
+  return parser.end();
+};
+
+const loadGuide = async (source: EpgSourceInput, force: boolean): Promise<XmltvData> => {
+  const cached = await idbGet<CachedGuide>('epg', source.key).catch(() => undefined);
+  if (!source.file && !source.fetchUrl) {
+    // A previously uploaded file: only the cache has it
+    if (cached) return cached.data;
+    throw new Error('Not cached, upload the file again');
+  }
+  // A guide parsed with a narrower window is missing catch-up days, fetch it again
+  const fresh = cached && cached.windowPast === EPG_WINDOW_PAST_MS && Date.now() - cached.fetchedAt < EPG_CACHE_TTL_MS;
+  if (!force && !source.file && fresh) {
+    return cached.data;
+  }
+
+  let data: XmltvData;
+  if (source.file) {
+    data = await parseStream(new Blob([source.file]).stream());
+  } else {
+    const res = await fetch(source.fetchUrl!);
+    if (!res.ok || !res.body) throw new Error(`HTTP ${res.status}`);
+    data = await parseStream(res.body);
+  }
+
+  await idbPut('epg', source.key, { fetchedAt: Date.now(), windowPast: EPG_WINDOW_PAST_MS, data } as CachedGuide).catch(() => {});
+  return data;
+};
+
+const buildIndex = () => {
+  programmesById = new Map();
+  idByName = new Map();
+  guides.forEach(({ channels, programmes }) => {
+    Object.entries(programmes).forEach(([id, list]) => {
+      // First guide that covers a channel wins
+      if (!programmesById.has(id) && list.length > 0) programmesById.set(id, list);
+    });
+    channels.forEach(ch => {
+      ch.names.forEach(name => {
+        const key = normalizeName(name);
+        if (key && !idByName.has(key)) idByName.set(key, ch.id);
+      });
+      const idKey = normalizeName(ch.id);
+      if (idKey && !idByName.has(idKey)) idByName.set(idKey, ch.id);
+    });
+  });
+};
+
+const findProgrammes = (tvgId: string | undefined, name: string): EpgProgramme[] => {
+  if (tvgId && programmesById.has(tvgId)) return programmesById.get(tvgId)!;
+  const id = idByName.get(normalizeName(name));
+  return (id && programmesById.get(id)) || [];
+};
+
+const nowNext = (list: EpgProgramme[], at: number): EpgNowNext => {
+  const index = list.findIndex(p => p.stop > at);
+  if (index === -1) return {};
+  const current = list[index];
+  if (current.start <= at) return { now: current, next: list[index + 1] };
+  return { next: current };
+};
+
+ctx.onmessage = async (event) => {
+  const msg = event.data;
+  try {
+    switch (msg.type) {
+      case 'load': {
+        const errors: string[] = [];
+        const loaded = await Promise.all(msg.sources.map(source =>
+          loadGuide(source, !!msg.force).catch(e => {
+            errors.push(`${source.label}: ${e instanceof Error ? e.message : e}`);
+            return null;
+          })
+        ));
+        guides = loaded.filter((g): g is XmltvData => g !== null);
+        buildIndex();
+        let programmeCount = 0;
+        programmesById.forEach(list => { programmeCount += list.length; });
+        ctx.postMessage({ type: 'loaded', requestId: msg.requestId, channelCount: programmesById.size, programmeCount, errors });
+        break;
+      }
+      case 'naming': {
+        normalizeName = createNormalizer(msg.config);
+        buildIndex();
+        ctx.postMessage({ type: 'naming', requestId: msg.requestId });
+        break;
+      }
+      case 'nowNext': {
+        const result: Record<string, EpgNowNext> = {};
+        msg.channels.forEach(ch => {
+          const entry = nowNext(findProgrammes(ch.tvgId, ch.name), msg.at);
+          if (entry.now || entry.next) result[ch.id] = entry;
+        });
+        ctx.postMessage({ type: 'nowNext', requestId: msg.requestId, result });
+        break;
+      }
+      case 'guide': {
+        const programmes = findProgrammes(msg.tvgId, msg.name)
+          .filter(p => p.stop > msg.from && p.start < msg.to);
+        ctx.postMessage({ type: 'guide', requestId: msg.requestId, programmes });
+        break;
+      }
+    }
+  } catch (e) {
+    ctx.postMessage({ type: 'error', requestId: msg.requestId, error: e instanceof Error ? e.message : String(e) });
+  }
+};